@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { Arsenal } from '../game/types';
+import { WEAPONS, WEAPON_ORDER } from '../game/constants';
+import { hasAmmo } from '../game/weapons';
+
+interface AmmoRackProps {
+  arsenal: Arsenal;
+}
+
+export const AmmoRack: React.FC<AmmoRackProps> = ({ arsenal }) => {
+  return (
+    <div className="flex flex-col gap-1.5 bg-black/60 backdrop-blur border border-white/10 px-4 py-3 rounded-lg">
+      <div className="flex items-baseline justify-between gap-3">
+        <span className="text-zinc-400 text-xs font-bold uppercase">Ammo</span>
+        <span className="text-zinc-500 text-[10px] font-mono">R to cycle</span>
+      </div>
+      {WEAPON_ORDER.map(id => {
+        const weapon = WEAPONS[id];
+        const selected = arsenal.selected === id;
+        const loaded = hasAmmo(arsenal, id);
+        return (
+          <div
+            key={id}
+            className={`flex items-center justify-between gap-4 px-2 py-0.5 rounded text-xs font-mono transition-colors ${selected ? 'bg-yellow-600/20 text-yellow-400 font-bold' : loaded ? 'text-zinc-300' : 'text-zinc-600 line-through'}`}
+          >
+            <span>{weapon.name}</span>
+            <span>{weapon.ammo === null ? '∞' : arsenal.ammo[id]}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { BookOpenIcon, XMarkIcon } from '@heroicons/react/24/solid';
+import { Typewriter } from './Typewriter';
+import { formatTicks } from '../game/loop';
+
+export interface LogEntry {
+  id: number;
+  text: string;
+  priority: boolean; // Opens the parchment and pauses the voyage until dismissed
+  streaming: boolean; // Narration still arriving
+  dismissed: boolean;
+  tick: number; // Simulation frame the entry was logged at
+}
+
+// How long a finished entry stays in the ticker before the next one slides in
+const dwellMs = (text: string) => 2500 + text.length * 45;
+
+const Pending: React.FC = () => (
+  <span className="flex items-center gap-2 italic opacity-70">
+    <span className="animate-spin">☸️</span>
+    Charting course...
+  </span>
+);
+
+// --- Priority notice ---
+interface LogNoticeProps {
+  entry: LogEntry;
+  onDismiss: () => void;
+}
+
+export const LogNotice: React.FC<LogNoticeProps> = ({ entry, onDismiss }) => {
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm transition-all animate-in fade-in duration-300">
+      <div className="bg-[#e7e5e4] max-w-lg w-full p-1 rounded-sm shadow-2xl transform rotate-1 relative">
+        <div className="border-4 border-[#78350f] p-8 h-full bg-[url('https://www.transparenttextures.com/patterns/aged-paper.png')] relative overflow-hidden">
+          <div className="absolute top-0 left-0 w-8 h-8 border-t-4 border-l-4 border-[#78350f]"></div>
+          <div className="absolute top-0 right-0 w-8 h-8 border-t-4 border-r-4 border-[#78350f]"></div>
+          <div className="absolute bottom-0 left-0 w-8 h-8 border-b-4 border-l-4 border-[#78350f]"></div>
+          <div className="absolute bottom-0 right-0 w-8 h-8 border-b-4 border-r-4 border-[#78350f]"></div>
+          <h3 className="text-[#78350f] text-2xl font-serif font-black mb-6 flex items-center justify-center gap-3 border-b-2 border-[#78350f]/20 pb-4">
+            <span className="text-3xl">📜</span>
+            <span>Captain's Log</span>
+          </h3>
+          <div className="text-[#451a03] font-serif text-xl leading-relaxed text-center min-h-[5rem] flex items-center justify-center">
+            {entry.text ? <Typewriter text={entry.text} /> : <Pending />}
+          </div>
+          {!entry.streaming && (
+            <button
+              onClick={onDismiss}
+              className="mt-8 w-full py-3 bg-[#78350f] hover:bg-[#92400e] text-[#fef3c7] font-bold uppercase tracking-widest rounded shadow-lg transition-colors border-2 border-[#451a03]"
+            >
+              Continue Voyage
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Corner ticker ---
+// Plays the queue of ordinary entries one after another while the voyage goes on.
+interface LogTickerProps {
+  entries: LogEntry[];
+}
+
+export const LogTicker: React.FC<LogTickerProps> = ({ entries }) => {
+  const [cursor, setCursor] = useState(0);
+  const current = entries[cursor];
+
+  // The log was cleared for a new voyage
+  useEffect(() => {
+    if (cursor > entries.length) setCursor(entries.length);
+  }, [entries.length, cursor]);
+
+  useEffect(() => {
+    if (!current || current.streaming) return;
+    const timer = setTimeout(() => setCursor(c => c + 1), dwellMs(current.text));
+    return () => clearTimeout(timer);
+  }, [current?.id, current?.streaming, current?.text]);
+
+  if (!current) return null;
+  const queued = entries.length - cursor - 1;
+
+  return (
+    <div className="absolute bottom-6 left-6 z-20 w-[min(26rem,80vw)] pointer-events-none animate-in slide-in-from-left duration-500">
+      <div key={current.id} className="bg-[#e7e5e4]/95 border-2 border-[#78350f] rounded-sm shadow-xl px-4 py-3 animate-in fade-in duration-300">
+        <div className="flex items-center justify-between mb-1 text-[#78350f] text-[10px] font-bold uppercase tracking-widest">
+          <span>📜 Captain's Log</span>
+          <span className="font-mono normal-case">{queued > 0 ? `+${queued} more · ` : ''}L for full log</span>
+        </div>
+        <div className="text-[#451a03] font-serif text-sm leading-snug">
+          {current.text ? <Typewriter text={current.text} /> : <Pending />}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Full log ---
+interface LogPanelProps {
+  entries: LogEntry[];
+  onClose: () => void;
+}
+
+export const LogPanel: React.FC<LogPanelProps> = ({ entries, onClose }) => {
+  return (
+    <div className="absolute top-0 right-0 bottom-0 z-40 w-[min(28rem,90vw)] flex flex-col bg-[#e7e5e4] border-l-4 border-[#78350f] shadow-2xl animate-in slide-in-from-right duration-300">
+      <div className="flex items-center justify-between px-6 py-4 border-b-2 border-[#78350f]/20">
+        <h3 className="flex items-center gap-2 text-[#78350f] text-xl font-serif font-black">
+          <BookOpenIcon className="w-5 h-5" />
+          Captain's Log
+        </h3>
+        <button onClick={onClose} title="Close (L)" className="p-1.5 text-[#78350f] hover:bg-[#78350f]/10 rounded-md transition-colors">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+        {entries.length === 0 && <div className="text-[#78350f]/60 font-serif italic">Nothing logged yet.</div>}
+        {[...entries].reverse().map(entry => (
+          <div key={entry.id} className="border-b border-[#78350f]/10 pb-3">
+            <div className="text-[#78350f]/60 text-[10px] font-mono uppercase mb-1">
+              {formatTicks(entry.tick)}
+            </div>
+            <div className="text-[#451a03] font-serif leading-snug">{entry.text || <Pending />}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
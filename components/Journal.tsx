@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { BookOpenIcon, XMarkIcon, ArrowDownTrayIcon, TrashIcon, MapPinIcon } from '@heroicons/react/24/solid';
+import { JournalEntry, JournalKind, JOURNAL_KINDS, journalToJson, journalToMarkdown } from '../game/journal';
+
+const KIND_ICONS: Record<JournalKind, string> = {
+  narration: '📜',
+  delivery: '🎁',
+  kill: '💥',
+  shipwreck: '☠️'
+};
+
+interface JournalProps {
+  entries: JournalEntry[];
+  onClose: () => void;
+  onClear: () => void;
+}
+
+export const Journal: React.FC<JournalProps> = ({ entries, onClose, onClear }) => {
+  const [filter, setFilter] = useState<JournalKind | 'all'>('all');
+  const shown = entries.filter(entry => filter === 'all' || entry.kind === filter).reverse();
+
+  const handleExport = (format: 'json' | 'md') => {
+      const dataStr = format === 'json' ? journalToJson(entries) : journalToMarkdown(entries);
+      const blob = new Blob([dataStr], { type: format === 'json' ? "application/json" : "text/markdown" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `santas_journal.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="w-full max-w-2xl h-[85vh] flex flex-col bg-zinc-900/95 border border-zinc-700 rounded-2xl shadow-[0_0_50px_rgba(0,0,0,0.5)] overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <h2 className="flex items-center gap-2 text-2xl font-black text-yellow-400">
+            <BookOpenIcon className="w-6 h-6" />
+            Journal
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => handleExport('json')}
+              disabled={entries.length === 0}
+              title="Export as JSON"
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold uppercase tracking-wider text-zinc-300 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg transition-colors disabled:opacity-30"
+            >
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              JSON
+            </button>
+            <button
+              onClick={() => handleExport('md')}
+              disabled={entries.length === 0}
+              title="Export as Markdown"
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold uppercase tracking-wider text-zinc-300 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg transition-colors disabled:opacity-30"
+            >
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              Markdown
+            </button>
+            <button
+              onClick={() => { if (confirm("Burn the whole journal? This cannot be undone.")) onClear(); }}
+              disabled={entries.length === 0}
+              title="Clear Journal"
+              className="p-1.5 text-zinc-500 hover:text-red-400 hover:bg-zinc-800 rounded-lg transition-colors disabled:opacity-30"
+            >
+              <TrashIcon className="w-5 h-5" />
+            </button>
+            <button onClick={onClose} title="Close" className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded-lg transition-colors">
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex gap-2 px-6 py-3 border-b border-zinc-800">
+          {(['all', ...Object.keys(JOURNAL_KINDS)] as (JournalKind | 'all')[]).map(id => (
+            <button
+              key={id}
+              onClick={() => setFilter(id)}
+              className={`px-3 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider border transition-colors ${id === filter ? 'bg-yellow-600/20 border-yellow-600 text-yellow-400' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+            >
+              {id === 'all' ? 'All' : JOURNAL_KINDS[id]}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+          {shown.length === 0 && (
+            <div className="py-12 text-center text-zinc-500 italic">No entries yet. Set sail and make some history!</div>
+          )}
+          {shown.map(entry => (
+            <div key={entry.id} className="flex gap-3 p-3 bg-zinc-950/60 border border-zinc-800 rounded-lg text-left">
+              <div className="text-xl leading-none pt-0.5">{KIND_ICONS[entry.kind]}</div>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-zinc-200 leading-snug">{entry.text}</div>
+                <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-[10px] font-mono text-zinc-500 uppercase">
+                  <span>{new Date(entry.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+                  <span className="tracking-[0.2em] text-zinc-400">{entry.voyage}</span>
+                  <span className="flex items-center gap-0.5"><MapPinIcon className="w-3 h-3" />{entry.x}, {entry.y}</span>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { TrophyIcon, XMarkIcon } from '@heroicons/react/24/solid';
+import { LeaderboardEntry, LeaderboardFilter, topScores, MAX_NAME_LENGTH } from '../game/leaderboard';
+import { DIFFICULTY_PRESETS, DifficultyId, GAME_MODES, GameMode } from '../game/constants';
+import { accuracy, totalSunk } from '../game/stats';
+
+// --- Name entry for a run that made the table ---
+interface LeaderboardSignInProps {
+  name: string;
+  onNameChange: (name: string) => void;
+  onSubmit: () => void;
+}
+
+export const LeaderboardSignIn: React.FC<LeaderboardSignInProps> = ({ name, onNameChange, onSubmit }) => (
+  <form
+    onSubmit={e => { e.preventDefault(); onSubmit(); }}
+    className="flex items-center gap-3 bg-black/40 p-3 rounded-xl border border-yellow-600/50"
+  >
+    <TrophyIcon className="w-5 h-5 text-yellow-400 flex-shrink-0" />
+    <input
+      value={name}
+      onChange={e => onNameChange(e.target.value.slice(0, MAX_NAME_LENGTH))}
+      placeholder="Your name, Captain"
+      spellCheck={false}
+      className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 font-bold text-yellow-400 focus:outline-none focus:border-yellow-600"
+    />
+    <button type="submit" className="px-4 py-2 bg-yellow-600 hover:bg-yellow-500 text-black font-bold rounded-lg uppercase text-xs tracking-wider transition-colors">
+      Sign the Log
+    </button>
+  </form>
+);
+
+// --- Table ---
+interface LeaderboardProps {
+  entries: LeaderboardEntry[];
+  initialFilter: LeaderboardFilter;
+  highlightId?: string | null; // The run just signed in, if any
+  onClose: () => void;
+}
+
+const chip = (active: boolean) =>
+  `px-3 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider border transition-colors ${active ? 'bg-yellow-600/20 border-yellow-600 text-yellow-400' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'}`;
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({ entries, initialFilter, highlightId, onClose }) => {
+  const [filter, setFilter] = useState(initialFilter);
+  const top = topScores(entries, filter);
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-zinc-900/95 border border-zinc-700 rounded-2xl shadow-[0_0_50px_rgba(0,0,0,0.5)] overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <h2 className="flex items-center gap-2 text-2xl font-black text-yellow-400">
+            <TrophyIcon className="w-6 h-6" />
+            Hall of Fame
+          </h2>
+          <button onClick={onClose} title="Close" className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded-lg transition-colors">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 px-6 py-3 border-b border-zinc-800">
+          {(Object.keys(GAME_MODES) as GameMode[]).map(id => (
+            <button key={id} onClick={() => setFilter(f => ({ ...f, mode: id }))} className={chip(id === filter.mode)}>
+              {GAME_MODES[id].label}
+            </button>
+          ))}
+          <div className="w-px bg-zinc-800 mx-1"></div>
+          {(Object.keys(DIFFICULTY_PRESETS) as DifficultyId[]).map(id => (
+            <button key={id} onClick={() => setFilter(f => ({ ...f, difficulty: id }))} className={chip(id === filter.difficulty)}>
+              {DIFFICULTY_PRESETS[id].label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {top.length === 0 ? (
+            <div className="py-12 text-center text-zinc-500 italic">No captains have braved these waters yet.</div>
+          ) : (
+            <table className="w-full text-sm font-mono">
+              <thead>
+                <tr className="text-[10px] uppercase tracking-wider text-zinc-500 text-left">
+                  <th className="py-2 pr-2">#</th>
+                  <th className="py-2 pr-2">Captain</th>
+                  <th className="py-2 pr-2 text-right">Bounty</th>
+                  <th className="py-2 pr-2 text-right">Sunk</th>
+                  <th className="py-2 pr-2 text-right">Isles</th>
+                  <th className="py-2 pr-2 text-right">Acc.</th>
+                  <th className="py-2 text-right">Date</th>
+                </tr>
+              </thead>
+              <tbody>
+                {top.map((entry, i) => (
+                  <tr
+                    key={entry.id}
+                    title={`Voyage ${entry.seed}`}
+                    className={`border-t border-zinc-800 ${entry.id === highlightId ? 'bg-yellow-600/20 text-yellow-300' : 'text-zinc-300'}`}
+                  >
+                    <td className="py-2 pr-2 text-zinc-500">{i + 1}</td>
+                    <td className="py-2 pr-2 font-sans font-bold truncate max-w-[10rem]">{entry.name}</td>
+                    <td className="py-2 pr-2 text-right text-yellow-400">{entry.score.toLocaleString()}</td>
+                    <td className="py-2 pr-2 text-right">{totalSunk(entry.stats)}</td>
+                    <td className="py-2 pr-2 text-right">{entry.stats.delivered}</td>
+                    <td className="py-2 pr-2 text-right">{Math.round(accuracy(entry.stats) * 100)}%</td>
+                    <td className="py-2 text-right text-zinc-500 text-xs">{new Date(entry.date).toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { PlayIcon, PauseIcon, XMarkIcon } from '@heroicons/react/24/solid';
+import { formatTicks } from '../game/loop';
+
+interface ReplayControlsProps {
+  seed: string;
+  tick: number;
+  ticks: number;
+  paused: boolean;
+  speed: number;
+  onTogglePause: () => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ seed, tick, ticks, paused, speed, onTogglePause, onSeek, onSpeedChange, onExit }) => {
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 w-[min(90%,44rem)] animate-in slide-in-from-bottom duration-500">
+      <div className="flex items-center gap-4 bg-black/70 backdrop-blur border border-white/10 px-5 py-3 rounded-xl shadow-lg">
+        <button
+          onClick={onTogglePause}
+          title={paused ? "Play" : "Pause"}
+          className="p-2 bg-yellow-600 hover:bg-yellow-500 rounded-full transition-colors"
+        >
+          {paused ? <PlayIcon className="w-5 h-5 text-black" /> : <PauseIcon className="w-5 h-5 text-black" />}
+        </button>
+
+        <span className="text-xs font-mono text-zinc-400 w-20 text-center">
+          {formatTicks(tick)} / {formatTicks(ticks)}
+        </span>
+
+        <input
+          type="range"
+          min={0}
+          max={ticks}
+          value={tick}
+          onChange={e => onSeek(Number(e.target.value))}
+          className="flex-1 accent-yellow-500"
+        />
+
+        <div className="flex items-center gap-1">
+          {SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => onSpeedChange(s)}
+              className={`px-2 py-1 text-[10px] font-mono rounded transition-colors ${s === speed ? 'bg-yellow-500 text-black font-bold' : 'text-zinc-400 hover:bg-zinc-800'}`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={onExit}
+          title="Exit Replay"
+          className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded-md transition-colors"
+        >
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="mt-2 text-center text-[10px] font-mono uppercase tracking-widest text-zinc-500">
+        Replay · Voyage {seed}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { RunStats } from '../game/types';
+import { accuracy, totalSunk, secondsAfloat, nauticalMiles } from '../game/stats';
+
+interface RunSummaryProps {
+  stats: RunStats;
+}
+
+const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export const RunSummary: React.FC<RunSummaryProps> = ({ stats }) => {
+  const rows: [string, string][] = [
+    ['Time Afloat', formatSeconds(secondsAfloat(stats))],
+    ['Distance Sailed', `${nauticalMiles(stats).toFixed(1)} nm`],
+    ['Shots Fired', stats.shotsFired.toLocaleString()],
+    ['Accuracy', `${Math.round(accuracy(stats) * 100)}%`],
+    ['Pirates Sunk', `${totalSunk(stats)} (${stats.sunk.pirate} sloops · ${stats.sunk.elite} frigates)`],
+    ['Islands Delivered', stats.delivered.toLocaleString()],
+    ['Damage Taken', Math.round(stats.damageTaken).toLocaleString()]
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-x-6 gap-y-1.5 text-left bg-black/40 px-6 py-4 rounded-xl border border-white/10 text-sm font-mono">
+      {rows.map(([label, value]) => (
+        <React.Fragment key={label}>
+          <div className="text-zinc-400 uppercase text-xs font-bold tracking-wider self-center">{label}</div>
+          <div className="text-white text-right">{value}</div>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ArchiveBoxIcon, ArrowRightIcon, XMarkIcon, TrashIcon } from '@heroicons/react/24/solid';
+import { SaveGame, SaveSlotId, SAVE_SLOTS, listSaves, deleteSave } from '../game/save';
+import { DIFFICULTY_PRESETS } from '../game/constants';
+import { formatTicks } from '../game/loop';
+
+interface SaveMenuProps {
+  canSave: boolean; // A live voyage is open, so slots can be written
+  onSave: (slot: SaveSlotId) => void;
+  onLoad: (save: SaveGame) => void;
+  onClose: () => void;
+}
+
+export const SaveMenu: React.FC<SaveMenuProps> = ({ canSave, onSave, onLoad, onClose }) => {
+  const [slots, setSlots] = useState(listSaves);
+  const refresh = () => setSlots(listSaves());
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="w-full max-w-3xl p-6 bg-zinc-900/95 border border-zinc-700 rounded-2xl shadow-[0_0_50px_rgba(0,0,0,0.5)]">
+        <div className="flex items-center space-x-3 mb-4">
+          <ArchiveBoxIcon className="w-4 h-4 text-zinc-500" />
+          <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-500">{canSave ? 'Save or Load Voyage' : 'Load Voyage'}</h2>
+          <div className="h-px flex-1 bg-zinc-800"></div>
+          <button onClick={onClose} title="Close" className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded-lg transition-colors">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex overflow-x-auto space-x-4 pb-2">
+          {slots.map(({ slot, save }) => {
+            // Autosave is only ever written on delivery
+            const writable = canSave && slot !== 'auto';
+            return (
+              <div
+                key={slot}
+                className="group flex-shrink-0 relative flex flex-col text-left w-44 h-40 bg-zinc-900/50 hover:bg-zinc-800 border border-zinc-800 hover:border-zinc-600 rounded-lg transition-all duration-200 overflow-hidden"
+              >
+                <div className="p-4 flex flex-col h-full">
+                  <div className="flex items-start justify-between mb-2">
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-zinc-400">{SAVE_SLOTS[slot]}</span>
+                    {save && (
+                      <span className="text-[10px] font-mono text-zinc-600 group-hover:text-zinc-400">
+                        {new Date(save.savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    )}
+                  </div>
+
+                  {save ? (
+                    <div className="space-y-0.5 text-[10px] font-mono text-zinc-500">
+                      <div className="text-sm font-medium text-zinc-300 tracking-[0.2em]">{save.summary.seed}</div>
+                      <div>{DIFFICULTY_PRESETS[save.summary.difficulty].label} · {formatTicks(save.summary.ticks)}</div>
+                      <div className="text-yellow-500">{save.summary.score.toLocaleString()} bounty</div>
+                      <div>{save.summary.delivered}/{save.summary.islands} isles · hull {save.summary.health}</div>
+                    </div>
+                  ) : (
+                    <div className="text-xs italic text-zinc-600">Empty</div>
+                  )}
+
+                  <div className="mt-auto flex items-center gap-3 text-[10px] font-bold uppercase">
+                    {save && (
+                      <button onClick={() => onLoad(save)} className="flex items-center space-x-1 text-blue-400 hover:text-blue-300">
+                        <span>Load</span>
+                        <ArrowRightIcon className="w-3 h-3" />
+                      </button>
+                    )}
+                    {writable && (
+                      <button
+                        onClick={() => { if (!save || confirm(`Overwrite ${SAVE_SLOTS[slot]}?`)) { onSave(slot); refresh(); } }}
+                        className="text-yellow-500 hover:text-yellow-400"
+                      >
+                        Save
+                      </button>
+                    )}
+                    {save && (
+                      <button
+                        onClick={() => { deleteSave(slot); refresh(); }}
+                        title="Delete Save"
+                        className="ml-auto text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        <TrashIcon className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
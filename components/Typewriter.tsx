@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+
+interface TypewriterProps {
+  text: string; // May keep growing while narration streams in
+  charsPerSecond?: number;
+}
+
+// Reveals text a few characters at a time, catching up with text that is
+// still arriving. Starts over when the text is replaced rather than extended.
+export const Typewriter: React.FC<TypewriterProps> = ({ text, charsPerSecond = 45 }) => {
+  const [shown, setShown] = useState('');
+
+  useEffect(() => {
+    if (!text.startsWith(shown)) setShown('');
+  }, [text]);
+
+  useEffect(() => {
+    if (shown.length >= text.length || !text.startsWith(shown)) return;
+    const timer = setTimeout(() => setShown(text.slice(0, shown.length + 1)), 1000 / charsPerSecond);
+    return () => clearTimeout(timer);
+  }, [text, shown, charsPerSecond]);
+
+  return (
+    <span>
+      {shown}
+      {shown.length < text.length && <span className="inline-block w-0.5 h-5 ml-0.5 align-middle bg-current animate-pulse"></span>}
+    </span>
+  );
+};
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { Wind, Ship } from '../game/types';
+import { optimalTrim, pointOfSailEfficiency } from '../game/wind';
+import { WIND_MAX_STRENGTH } from '../game/constants';
+
+interface WindIndicatorProps {
+  wind: Wind;
+  ship: Ship;
+}
+
+// Physics angles have 0 = +X; the arrow art points up (-Y), so rotate a further 90deg.
+const toCssDegrees = (angle: number) => (angle * 180) / Math.PI + 90;
+
+export const WindIndicator: React.FC<WindIndicatorProps> = ({ wind, ship }) => {
+  const target = optimalTrim(ship.rotation, wind);
+  const inIrons = pointOfSailEfficiency(ship.rotation, wind) === 0;
+  const knots = Math.round(wind.strength * 12);
+
+  return (
+    <div className="flex items-center gap-4 bg-black/60 backdrop-blur border border-white/10 px-4 py-3 rounded-lg">
+      <div className="relative w-14 h-14 rounded-full border-2 border-zinc-700 bg-zinc-900/80">
+        <span className="absolute top-0.5 left-1/2 -translate-x-1/2 text-[8px] font-bold text-zinc-500">N</span>
+        {/* Ship heading */}
+        <div className="absolute inset-0 flex items-center justify-center" style={{ transform: `rotate(${toCssDegrees(ship.rotation)}deg)` }}>
+          <div className="w-0.5 h-5 -translate-y-2.5 bg-red-500/70 rounded"></div>
+        </div>
+        {/* Wind direction */}
+        <div className="absolute inset-0 flex items-center justify-center transition-transform duration-500" style={{ transform: `rotate(${toCssDegrees(wind.angle)}deg)` }}>
+          <div className="flex flex-col items-center -translate-y-1">
+            <div className="w-0 h-0 border-l-[5px] border-r-[5px] border-b-[8px] border-l-transparent border-r-transparent border-b-sky-300"></div>
+            <div className="w-1 bg-sky-300 rounded-b" style={{ height: `${8 + (wind.strength / WIND_MAX_STRENGTH) * 12}px` }}></div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1.5">
+        <div className="flex items-baseline justify-between gap-3">
+          <span className="text-zinc-400 text-xs font-bold uppercase">Wind</span>
+          <span className="text-sky-300 text-xs font-mono">{knots} kn</span>
+        </div>
+        <div className="text-zinc-400 text-[10px] font-bold uppercase">Sail Trim</div>
+        <div className="relative w-28 h-2 bg-zinc-800 rounded-full">
+          <div className="absolute top-0 bottom-0 w-1 bg-green-400/60 rounded" style={{ left: `calc(${target * 100}% - 2px)` }}></div>
+          <div className="absolute -top-0.5 w-3 h-3 bg-white rounded-full shadow" style={{ left: `calc(${ship.sailTrim * 100}% - 6px)` }}></div>
+        </div>
+        {inIrons && <div className="text-red-400 text-[10px] font-bold uppercase animate-pulse">In Irons!</div>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, Ship, AiBrain, AiState, Vector } from './types';
+import {
+  ENEMY_CLASSES, BROADSIDE_RANGE, AI_DETECT_RANGE, AI_ENGAGE_RANGE, AI_ORBIT_RADIUS, AI_FLANK_OFFSET,
+  AI_ALLY_RANGE, AI_SAFE_DISTANCE, AI_DECISION_INTERVAL, SHALLOWS_WIDTH, SPATIAL_SLACK
+} from './constants';
+import { normalizeAngle, sailableHeading } from './wind';
+import { nextRandom, randomRange } from './rng';
+import { landAt, lineBlocked, avoidShore } from './terrain';
+import { spatialIndex, queryRadius } from './spatial';
+
+// Per-ship behavior state machine. Each enemy carries a small "brain" and
+// every tick the AI turns it into a helm command; simulation.ts executes it
+// (physics and gunnery), so this module never mutates ships directly beyond
+// their brain. Headings are bent around islands (see terrain.ts) before they
+// reach the helm.
+//
+//   patrol  -> pursue   player spotted
+//   pursue  -> circle   broadside ship in range
+//   pursue  -> flank    allies already engaged, swing around to the quarter
+//   *       -> flee     hull below the class fleeAt threshold
+//   flee    -> regroup  far enough away, friends nearby
+//   regroup -> pursue   back with the pack (or patrol when alone)
+
+export interface HelmCommand {
+  heading: number;
+  thrust: boolean;
+  fire: boolean;
+}
+
+type EnemyClass = typeof ENEMY_CLASSES[keyof typeof ENEMY_CLASSES];
+
+// `home` is where the ship is now, the waypoint of last resort
+export const createBrain = (s: WorldState, state: AiState, home: Vector): AiBrain => ({
+  state,
+  timer: 0,
+  target: randomPatrolPoint(s, home),
+  side: nextRandom(s) > 0.5 ? 1 : -1
+});
+
+const PATROL_TRIES = 50;
+
+// Waypoints are always in open water, or a patrol could never arrive. A sea
+// too crowded to find one keeps the patrol where it is.
+const randomPatrolPoint = (s: WorldState, fallback: Vector): Vector => {
+  for (let tries = 0; tries < PATROL_TRIES; tries++) {
+    const point = { x: randomRange(s, 300, s.voyage.worldSize - 300), y: randomRange(s, 300, s.voyage.worldSize - 300) };
+    if (!landAt(s, point.x, point.y, SHALLOWS_WIDTH + 150)) return point;
+  }
+  return { x: fallback.x, y: fallback.y };
+};
+
+export const enemyClass = (ship: Ship): EnemyClass => ENEMY_CLASSES[ship.type === 'elite' ? 'elite' : 'pirate'];
+
+// "Nearby ships" query for the AI. Ships earlier in the turn order have already
+// moved since they were filed, hence the slack.
+export const nearbyAllies = (s: WorldState, ship: Ship, range: number) =>
+  queryRadius(spatialIndex(s).enemies, ship.x, ship.y, range + SPATIAL_SLACK)
+    .map(index => s.enemies[index])
+    .filter(e => e !== ship && e.active && Math.hypot(e.x - ship.x, e.y - ship.y) < range);
+
+const enter = (brain: AiBrain, state: AiState) => {
+  brain.state = state;
+  brain.timer = AI_DECISION_INTERVAL;
+};
+
+// --- Transitions ---
+const think = (s: WorldState, ship: Ship, brain: AiBrain, stats: EnemyClass, dist: number) => {
+  const p = s.player;
+  const detect = AI_DETECT_RANGE * (0.6 + stats.aggression * 0.8);
+
+  if (!p.active) {
+    if (brain.state !== 'patrol') enter(brain, 'patrol');
+    return;
+  }
+
+  if (brain.state !== 'flee' && ship.health < ship.maxHealth * stats.fleeAt) {
+    enter(brain, 'flee');
+    return;
+  }
+
+  switch (brain.state) {
+    case 'patrol':
+      if (dist < detect) enter(brain, 'pursue');
+      else if (Math.hypot(brain.target.x - ship.x, brain.target.y - ship.y) < 150) brain.target = randomPatrolPoint(s, brain.target);
+      break;
+
+    case 'pursue': {
+      if (dist > detect * 1.5) { enter(brain, 'patrol'); break; }
+      if (dist > AI_ENGAGE_RANGE || brain.timer > 0) break;
+      const engaged = nearbyAllies(s, ship, AI_ALLY_RANGE).some(a => a.ai && (a.ai.state === 'pursue' || a.ai.state === 'circle'));
+      if (engaged && nextRandom(s) < stats.aggression) {
+        brain.side = nextRandom(s) > 0.5 ? 1 : -1;
+        enter(brain, 'flank');
+      } else if (stats.guns === 'broadside') {
+        enter(brain, 'circle');
+      }
+      break;
+    }
+
+    case 'circle':
+      if (dist > BROADSIDE_RANGE * 1.6) enter(brain, 'pursue');
+      break;
+
+    case 'flank':
+      // Give up on the manoeuvre after a while and just attack
+      if (brain.timer <= -AI_DECISION_INTERVAL * 4) enter(brain, stats.guns === 'broadside' ? 'circle' : 'pursue');
+      break;
+
+    case 'flee':
+      if (dist > AI_SAFE_DISTANCE) {
+        // Patched up enough to fight again once safe
+        ship.health = Math.min(ship.maxHealth, ship.health + ship.maxHealth * 0.25);
+        enter(brain, nearbyAllies(s, ship, AI_ALLY_RANGE * 2).length > 0 ? 'regroup' : 'patrol');
+      }
+      break;
+
+    case 'regroup': {
+      const allies = nearbyAllies(s, ship, AI_ALLY_RANGE * 2);
+      if (allies.length === 0) { enter(brain, 'patrol'); break; }
+      const cx = allies.reduce((sum, a) => sum + a.x, 0) / allies.length;
+      const cy = allies.reduce((sum, a) => sum + a.y, 0) / allies.length;
+      brain.target = { x: cx, y: cy };
+      if (Math.hypot(cx - ship.x, cy - ship.y) < 200 || brain.timer <= -AI_DECISION_INTERVAL * 6) enter(brain, 'pursue');
+      break;
+    }
+  }
+};
+
+// --- Behaviors ---
+export const updateEnemyAI = (s: WorldState, ship: Ship, dt: number): HelmCommand => {
+  if (!ship.ai) ship.ai = createBrain(s, 'patrol', ship);
+  const brain = ship.ai;
+  const stats = enemyClass(ship);
+  const p = s.player;
+
+  const dx = p.x - ship.x;
+  const dy = p.y - ship.y;
+  const dist = Math.hypot(dx, dy);
+  const angleToPlayer = Math.atan2(dy, dx);
+  const bearing = normalizeAngle(angleToPlayer - ship.rotation); // Where the player sits relative to the bow
+
+  brain.timer -= dt;
+  think(s, ship, brain, stats, dist);
+
+  const headTo = (x: number, y: number) => Math.atan2(y - ship.y, x - ship.x);
+  // Guns can be brought to bear regardless of state once lined up
+  const bowOn = stats.guns === 'chasers' && dist < AI_ENGAGE_RANGE && Math.abs(bearing) < 0.3;
+  const abeam = stats.guns === 'broadside' && dist < BROADSIDE_RANGE && Math.abs(Math.abs(bearing) - Math.PI / 2) < 0.25;
+  // Don't waste powder on a player hiding behind an island
+  const canFire = p.active && (bowOn || abeam) && !lineBlocked(s, ship.x, ship.y, p.x, p.y);
+
+  let desired: number;
+  let thrust = true;
+
+  switch (brain.state) {
+    case 'patrol':
+      desired = headTo(brain.target.x, brain.target.y);
+      break;
+
+    case 'pursue':
+      desired = angleToPlayer;
+      // Chasers ease off when close so they can hold the bow on target
+      thrust = stats.guns === 'broadside' || dist > 250;
+      break;
+
+    case 'circle': {
+      // Orbit the player: tangent to the circle, nudged in or out to hold the radius
+      const side = bearing > 0 ? -1 : 1;
+      const correction = Math.max(-0.6, Math.min(0.6, (dist - AI_ORBIT_RADIUS) / AI_ORBIT_RADIUS));
+      desired = angleToPlayer + side * (Math.PI / 2 - correction);
+      break;
+    }
+
+    case 'flank': {
+      // Aim for a point off the player's quarter, then turn in
+      const back = p.rotation + Math.PI + brain.side * 0.8;
+      const fx = p.x + Math.cos(back) * AI_FLANK_OFFSET;
+      const fy = p.y + Math.sin(back) * AI_FLANK_OFFSET;
+      if (Math.hypot(fx - ship.x, fy - ship.y) < 120) {
+        enter(brain, stats.guns === 'broadside' ? 'circle' : 'pursue');
+        desired = angleToPlayer;
+      } else {
+        desired = headTo(fx, fy);
+      }
+      break;
+    }
+
+    case 'flee':
+      desired = angleToPlayer + Math.PI;
+      break;
+
+    case 'regroup':
+      desired = headTo(brain.target.x, brain.target.y);
+      break;
+  }
+
+  // Beat upwind on the nearest sailable tack rather than sitting in irons,
+  // but never at the cost of running aground
+  const heading = thrust ? avoidShore(s, ship, sailableHeading(desired, s.wind)) : desired;
+  return { heading, thrust, fire: canFire && brain.state !== 'flee' && brain.state !== 'patrol' };
+};
@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Procedural sound engine. Everything is synthesized with the Web Audio API at
+// runtime, so there are no audio assets to download.
+
+export interface SoundEngine {
+  resume: () => void; // Must be called from a user gesture before anything is audible
+  setMuted: (muted: boolean) => void;
+  setVolume: (volume: number) => void; // 0..1
+  cannon: (pan: number, gain: number) => void;
+  hit: (pan: number, gain: number) => void;
+  explosion: (pan: number, gain: number) => void;
+  jingle: () => void;
+  setWake: (speed: number) => void; // Ship speed in world units per tick
+}
+
+// --- Spatialization ---
+// Maps a world position to stereo pan and distance attenuation relative to the camera view.
+export const spatialize = (x: number, y: number, camera: { x: number; y: number }, width: number, height: number) => {
+  const dx = x - (camera.x + width / 2);
+  const dy = y - (camera.y + height / 2);
+  const pan = Math.max(-1, Math.min(1, dx / (width / 2)));
+  const reach = Math.hypot(width, height);
+  const gain = Math.max(0, 1 - Math.hypot(dx, dy) / reach);
+  return { pan, gain };
+};
+
+const MAX_WAKE_GAIN = 0.12;
+const MIN_VOICE_GAP = 0.02; // Seconds; stacks of identical shots collapse into one louder voice
+
+export const createSoundEngine = (): SoundEngine => {
+  let ctx: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let noise: AudioBuffer | null = null;
+  let wakeGain: GainNode | null = null;
+  let wakeFilter: BiquadFilterNode | null = null;
+  let muted = false;
+  let volume = 0.7;
+  const lastVoice: Record<string, number> = {};
+
+  const applyMaster = () => {
+    if (!ctx || !master) return;
+    master.gain.setTargetAtTime(muted ? 0 : volume, ctx.currentTime, 0.05);
+  };
+
+  const init = () => {
+    if (ctx) return ctx;
+    const AudioCtor = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioCtor) return null;
+    ctx = new AudioCtor();
+    master = ctx.createGain();
+    master.connect(ctx.destination);
+    applyMaster();
+
+    // Two seconds of white noise shared by every percussive voice and the ocean loop
+    noise = ctx.createBuffer(1, ctx.sampleRate * 2, ctx.sampleRate);
+    const data = noise.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+
+    // Ocean / wake loop: filtered noise whose level and brightness follow ship speed
+    const src = ctx.createBufferSource();
+    src.buffer = noise;
+    src.loop = true;
+    wakeFilter = ctx.createBiquadFilter();
+    wakeFilter.type = 'lowpass';
+    wakeFilter.frequency.value = 400;
+    wakeGain = ctx.createGain();
+    wakeGain.gain.value = 0.02;
+    src.connect(wakeFilter).connect(wakeGain).connect(master);
+    src.start();
+    return ctx;
+  };
+
+  // Routes a voice through a panner into the master bus
+  const output = (c: AudioContext, pan: number) => {
+    const panner = c.createStereoPanner();
+    panner.pan.value = pan;
+    panner.connect(master!);
+    return panner;
+  };
+
+  const throttled = (voice: string) => {
+    if (!ctx) return true;
+    const now = ctx.currentTime;
+    if (now - (lastVoice[voice] ?? -1) < MIN_VOICE_GAP) return true;
+    lastVoice[voice] = now;
+    return false;
+  };
+
+  const noiseBurst = (c: AudioContext, dest: AudioNode, duration: number, cutoff: number, level: number) => {
+    const t = c.currentTime;
+    const src = c.createBufferSource();
+    src.buffer = noise;
+    src.loop = true; // Starts at a random offset, so long bursts wrap round rather than cut off
+    const filter = c.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(cutoff, t);
+    filter.frequency.exponentialRampToValueAtTime(Math.max(40, cutoff * 0.1), t + duration);
+    const env = c.createGain();
+    env.gain.setValueAtTime(level, t);
+    env.gain.exponentialRampToValueAtTime(0.001, t + duration);
+    src.connect(filter).connect(env).connect(dest);
+    src.start(t, Math.random() * 1.5);
+    src.stop(t + duration);
+  };
+
+  const thump = (c: AudioContext, dest: AudioNode, from: number, to: number, duration: number, level: number) => {
+    const t = c.currentTime;
+    const osc = c.createOscillator();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(from, t);
+    osc.frequency.exponentialRampToValueAtTime(to, t + duration);
+    const env = c.createGain();
+    env.gain.setValueAtTime(level, t);
+    env.gain.exponentialRampToValueAtTime(0.001, t + duration);
+    osc.connect(env).connect(dest);
+    osc.start(t);
+    osc.stop(t + duration);
+  };
+
+  const tone = (c: AudioContext, freq: number, start: number, duration: number, level: number, type: OscillatorType) => {
+    const t = c.currentTime + start;
+    const osc = c.createOscillator();
+    osc.type = type;
+    osc.frequency.value = freq;
+    const env = c.createGain();
+    env.gain.setValueAtTime(0, t);
+    env.gain.linearRampToValueAtTime(level, t + 0.01);
+    env.gain.exponentialRampToValueAtTime(0.001, t + duration);
+    osc.connect(env).connect(master!);
+    osc.start(t);
+    osc.stop(t + duration);
+  };
+
+  return {
+    resume: () => {
+      const c = init();
+      if (c && c.state === 'suspended') c.resume();
+    },
+    setMuted: (m) => { muted = m; applyMaster(); },
+    setVolume: (v) => { volume = Math.max(0, Math.min(1, v)); applyMaster(); },
+
+    cannon: (pan, gain) => {
+      if (!ctx || muted || gain <= 0 || throttled('cannon')) return;
+      const out = output(ctx, pan);
+      noiseBurst(ctx, out, 0.6, 1800, 0.5 * gain);
+      thump(ctx, out, 110, 35, 0.5, 0.8 * gain);
+    },
+
+    hit: (pan, gain) => {
+      if (!ctx || muted || gain <= 0 || throttled('hit')) return;
+      const out = output(ctx, pan);
+      noiseBurst(ctx, out, 0.25, 3500, 0.4 * gain);
+      thump(ctx, out, 220, 80, 0.15, 0.4 * gain);
+    },
+
+    explosion: (pan, gain) => {
+      if (!ctx || muted || gain <= 0 || throttled('explosion')) return;
+      const out = output(ctx, pan);
+      noiseBurst(ctx, out, 1.6, 1200, 0.9 * gain);
+      thump(ctx, out, 80, 25, 1.2, 1.0 * gain);
+    },
+
+    // Sleigh-bell arpeggio for a delivered present
+    jingle: () => {
+      if (!ctx || muted) return;
+      const notes = [659.25, 783.99, 1046.5, 1318.5]; // E5 G5 C6 E6
+      notes.forEach((f, i) => {
+        tone(ctx!, f, i * 0.09, 0.5, 0.18, 'triangle');
+        tone(ctx!, f * 2, i * 0.09, 0.2, 0.05, 'sine');
+      });
+    },
+
+    setWake: (speed) => {
+      if (!ctx || !wakeGain || !wakeFilter) return;
+      const t = Math.min(1, speed / 4);
+      wakeGain.gain.setTargetAtTime(0.02 + t * MAX_WAKE_GAIN, ctx.currentTime, 0.3);
+      wakeFilter.frequency.setTargetAtTime(300 + t * 1500, ctx.currentTime, 0.3);
+    }
+  };
+};
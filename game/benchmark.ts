@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, Keys } from './types';
+import { SIM_DT, AI_ALLY_RANGE, CAMPAIGN_MAX_SIZE, CAMPAIGN_MAX_ISLANDS } from './constants';
+import { createWorld, step, spawnEnemy, spawnProjectile, checkCollision, random } from './simulation';
+import { openVoyage } from './voyage';
+import { landAt } from './terrain';
+import { shoreDistance } from './islands';
+import { spatialIndex, queryRadius } from './spatial';
+
+// Stress scene for the spatial index (see spatial.ts): hundreds of pirates and
+// thousands of cannonballs on the largest campaign sea. The headless run times
+// whole simulation ticks, then races the grid against the plain scans it
+// replaced on the same scene. Open the game with ?benchmark to run it and sail
+// the scene afterwards.
+
+export const BENCHMARK_SEED = 'BENCH1';
+
+export interface BenchmarkOptions {
+  ships: number;
+  projectiles: number; // Kept in flight every tick
+  ticks: number;
+}
+
+export const BENCHMARK_DEFAULTS: BenchmarkOptions = { ships: 300, projectiles: 3000, ticks: 60 };
+
+// Repeats of each query pass, to average out timer noise
+const QUERY_REPEATS = 10;
+
+export interface QueryTiming {
+  ms: number; // Per pass over the whole scene
+  tests: number; // Exact distance tests made
+  found: number; // Hits, neighbours and landfalls found, identical for both methods
+}
+
+export interface BenchmarkResult extends BenchmarkOptions {
+  stepMs: number; // Mean simulation tick
+  scan: QueryTiming;
+  grid: QueryTiming;
+  speedup: number; // How many times faster the grid answered
+}
+
+const IDLE: Keys = { w: false, a: false, s: false, d: false, q: false, e: false, r: false, space: false };
+
+export const createBenchmarkWorld = (options: BenchmarkOptions = BENCHMARK_DEFAULTS): WorldState => {
+  const s = createWorld(BENCHMARK_SEED, 'normal', { ...openVoyage(), worldSize: CAMPAIGN_MAX_SIZE, islandCount: CAMPAIGN_MAX_ISLANDS });
+  for (let i = 0; i < options.ships; i++) spawnEnemy(s, random(s) < 0.25 ? 'elite' : 'pirate');
+  fillSky(s, options.projectiles);
+  return s;
+};
+
+// Tops the volley back up with balls from both sides scattered over open water
+const fillSky = (s: WorldState, projectiles: number) => {
+  while (s.projectiles.length < projectiles) {
+    const x = random(s) * s.voyage.worldSize;
+    const y = random(s) * s.voyage.worldSize;
+    if (landAt(s, x, y)) continue;
+    spawnProjectile(s, x, y, random(s) * Math.PI * 2, random(s) < 0.5 ? 'player' : 'enemy');
+  }
+};
+
+// Every question the simulation asks each tick, answered by scanning everything
+const scanPass = (s: WorldState) => {
+  let tests = 0, found = 0;
+  for (const proj of s.projectiles) {
+    for (const island of s.islands) {
+      tests++;
+      if (shoreDistance(island, proj.x, proj.y) < 0) { found++; break; }
+    }
+    if (proj.owner !== 'player') continue;
+    for (const enemy of s.enemies) {
+      if (!enemy.active) continue;
+      tests++;
+      if (checkCollision(proj, enemy)) { found++; break; }
+    }
+  }
+  for (const ship of s.enemies) {
+    if (!ship.active) continue;
+    for (const other of s.enemies) {
+      if (other === ship || !other.active) continue;
+      tests++;
+      if (Math.hypot(other.x - ship.x, other.y - ship.y) < AI_ALLY_RANGE) found++;
+    }
+  }
+  return { tests, found };
+};
+
+// The same questions put to the grid
+const gridPass = (s: WorldState) => {
+  const index = spatialIndex(s);
+  let tests = 0, found = 0;
+  for (const proj of s.projectiles) {
+    for (const i of queryRadius(index.islands, proj.x, proj.y, 0)) {
+      const island = s.islands[i];
+      tests++;
+      if (shoreDistance(island, proj.x, proj.y) < 0) { found++; break; }
+    }
+    if (proj.owner !== 'player') continue;
+    for (const i of queryRadius(index.enemies, proj.x, proj.y, proj.radius)) {
+      const enemy = s.enemies[i];
+      if (!enemy.active) continue;
+      tests++;
+      if (checkCollision(proj, enemy)) { found++; break; }
+    }
+  }
+  for (const ship of s.enemies) {
+    if (!ship.active) continue;
+    for (const i of queryRadius(index.enemies, ship.x, ship.y, AI_ALLY_RANGE)) {
+      const other = s.enemies[i];
+      if (other === ship || !other.active) continue;
+      tests++;
+      if (Math.hypot(other.x - ship.x, other.y - ship.y) < AI_ALLY_RANGE) found++;
+    }
+  }
+  return { tests, found };
+};
+
+const timePass = (s: WorldState, pass: (s: WorldState) => { tests: number; found: number }): QueryTiming => {
+  const start = performance.now();
+  let result = pass(s);
+  for (let i = 1; i < QUERY_REPEATS; i++) result = pass(s);
+  return { ms: (performance.now() - start) / QUERY_REPEATS, ...result };
+};
+
+export const runBenchmark = (options: BenchmarkOptions = BENCHMARK_DEFAULTS): BenchmarkResult => {
+  const s = createBenchmarkWorld(options);
+  let stepTime = 0;
+  for (let i = 0; i < options.ticks; i++) {
+    fillSky(s, options.projectiles);
+    const start = performance.now();
+    step(s, { keys: IDLE, frozen: false }, SIM_DT);
+    stepTime += performance.now() - start;
+  }
+
+  const scan = timePass(s, scanPass);
+  const grid = timePass(s, gridPass);
+  if (scan.found !== grid.found) console.warn(`Benchmark: grid found ${grid.found} where a scan found ${scan.found}`);
+  return { ...options, stepMs: stepTime / options.ticks, scan, grid, speedup: scan.ms / Math.max(grid.ms, 1e-3) };
+};
+
+export const formatBenchmark = (r: BenchmarkResult) =>
+  `Benchmark: ${r.ships} ships and ${r.projectiles} cannonballs. ` +
+  `A simulation tick takes ${r.stepMs.toFixed(2)} ms. ` +
+  `Hit, landfall and neighbour queries take ${r.grid.ms.toFixed(2)} ms on the grid against ${r.scan.ms.toFixed(2)} ms scanning everything ` +
+  `(${r.grid.tests.toLocaleString()} tests instead of ${r.scan.tests.toLocaleString()}, ${r.speedup.toFixed(1)}x faster).`;
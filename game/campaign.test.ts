@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, it, expect } from 'vitest';
+import { createCampaign, completeLeg, campaignStats, parseCampaign } from './campaign';
+import { createWorld } from './simulation';
+
+// Campaigns come back out of localStorage, where anything may have been left;
+// a malformed one is dropped rather than summed into the totals.
+
+const sailed = () => {
+  const c = createCampaign('normal', 'ABCDEF');
+  const s = createWorld(c.seed);
+  s.score = 500;
+  s.stats.shotsFired = 12;
+  return completeLeg(c, s);
+};
+
+// Round-trips through JSON with one field overwritten
+const stored = (patch: (raw: any) => void) => {
+  const raw = JSON.parse(JSON.stringify(sailed()));
+  patch(raw);
+  return parseCampaign(raw);
+};
+
+describe('parseCampaign', () => {
+  it('reads back a stored campaign', () => {
+    const c = sailed();
+    expect(parseCampaign(JSON.parse(JSON.stringify(c)))).toEqual(c);
+  });
+
+  it('drops a campaign whose stats would not add up', () => {
+    expect(stored(raw => { delete raw.stats.shotsHit; })).toBeNull();
+    expect(stored(raw => { raw.stats.distance = 'far'; })).toBeNull();
+    expect(stored(raw => { raw.stats.ticks = -1; })).toBeNull();
+    expect(stored(raw => { raw.stats.sunk = null; })).toBeNull();
+    expect(stored(raw => { raw.stats.sunk.elite = undefined; })).toBeNull();
+  });
+
+  it('drops a campaign with a malformed voyage in its history', () => {
+    expect(stored(raw => { raw.history.push(null); })).toBeNull();
+    expect(stored(raw => { raw.history[0].score = 'lots'; })).toBeNull();
+    expect(stored(raw => { delete raw.history[0].seed; })).toBeNull();
+    expect(stored(raw => { raw.history[0].islands = 2.5; })).toBeNull();
+  });
+
+  it('keeps the totals numeric', () => {
+    const c = parseCampaign(JSON.parse(JSON.stringify(sailed())))!;
+    const stats = campaignStats(c, createWorld(c.seed));
+    expect(Object.values(stats).every(v => typeof v === 'object' || Number.isFinite(v))).toBe(true);
+    expect(stats.shotsFired).toBe(12);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, RunStats, Voyage } from './types';
+import { DIFFICULTY_PRESETS, DifficultyId } from './constants';
+import { campaignVoyage } from './voyage';
+import { createStats, addStats, isStats } from './stats';
+import { createSeedCode, normalizeSeedCode } from './rng';
+
+// A campaign strings voyages together: serve every island and the next, bigger
+// sea is charted. Progress lives in local storage until Santa is shipwrecked,
+// which ends the campaign and banks its total on the leaderboard.
+
+export interface CampaignLeg {
+  seed: string;
+  score: number;
+  islands: number;
+}
+
+export interface Campaign {
+  difficulty: DifficultyId;
+  leg: number; // Voyage being sailed (or about to be)
+  seed: string; // Its voyage code
+  totalScore: number; // Bounty banked by finished voyages
+  stats: RunStats; // Summed over finished voyages
+  history: CampaignLeg[];
+  started: number; // Wall-clock ms
+}
+
+const STORAGE_KEY = 'santas-pirate-seas:campaign';
+
+export const createCampaign = (difficulty: DifficultyId, seedCode: string): Campaign => ({
+  difficulty,
+  leg: 1,
+  seed: normalizeSeedCode(seedCode) || createSeedCode(),
+  totalScore: 0,
+  stats: createStats(),
+  history: [],
+  started: Date.now()
+});
+
+export const currentVoyage = (c: Campaign): Voyage => campaignVoyage(c.leg, c.seed);
+
+// Banks a finished voyage and charts the next one
+export const completeLeg = (c: Campaign, s: WorldState): Campaign => ({
+  ...c,
+  leg: c.leg + 1,
+  seed: createSeedCode(),
+  totalScore: c.totalScore + s.score,
+  stats: addStats(c.stats, s.stats),
+  history: [...c.history, { seed: c.seed, score: s.score, islands: s.islands.length }]
+});
+
+// Campaign totals including the voyage under way
+export const campaignScore = (c: Campaign, s: WorldState) => c.totalScore + s.score;
+export const campaignStats = (c: Campaign, s: WorldState) => addStats(c.stats, s.stats);
+
+const isLeg = (raw: any): raw is CampaignLeg =>
+  !!raw && typeof raw === 'object'
+  && typeof raw.seed === 'string'
+  && Number.isFinite(raw.score)
+  && Number.isInteger(raw.islands) && raw.islands >= 0;
+
+const isCampaign = (raw: any): raw is Campaign =>
+  !!raw && typeof raw === 'object'
+  && Object.prototype.hasOwnProperty.call(DIFFICULTY_PRESETS, raw.difficulty)
+  && Number.isInteger(raw.leg) && raw.leg >= 1
+  && typeof raw.seed === 'string' && !!raw.seed
+  && Number.isFinite(raw.totalScore) && Number.isFinite(raw.started)
+  && isStats(raw.stats)
+  && Array.isArray(raw.history) && raw.history.every(isLeg);
+
+export const parseCampaign = (raw: unknown): Campaign | null => isCampaign(raw) ? raw : null;
+
+// --- Storage ---
+export const loadCampaign = (): Campaign | null => {
+  try {
+    return parseCampaign(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'));
+  } catch (error) {
+    console.warn("Could not read the campaign:", error);
+    return null;
+  }
+};
+
+// Null ends the campaign
+export const saveCampaign = (c: Campaign | null) => {
+  try {
+    if (c) localStorage.setItem(STORAGE_KEY, JSON.stringify(c));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn("Could not save the campaign:", error);
+  }
+};
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, Cargo, Harbor, Island } from './types';
+import {
+  CARGO_CAPACITY, HARBOR_OFFSET, HARBOR_RADIUS, HARBOR_LOAD_FRAMES, CARGO_LOSS_CHANCE,
+  PRESENT_ORDER, PresentKind, MAX_WISH, WISH_REVEAL_RANGE
+} from './constants';
+import { nextRandom } from './rng';
+
+// Santa's hold. Presents are finite: every delivery spends some, heavy hits can
+// knock one overboard, and only the North Pole harbor loads more. Each island
+// wishes for particular presents, and the harbor stows whatever is most wanted.
+
+export const createCargo = (capacity = CARGO_CAPACITY): Cargo => ({ hold: [], capacity, loadTimer: HARBOR_LOAD_FRAMES });
+
+// Just north of where Santa sets out, in the middle of the sea
+export const createHarbor = (size: number): Harbor => ({
+  id: -1,
+  x: size / 2,
+  y: size / 2 - HARBOR_OFFSET,
+  radius: HARBOR_RADIUS,
+  rotation: 0,
+  active: true,
+  name: 'North Pole'
+});
+
+export const rollWish = (s: WorldState): PresentKind[] => {
+  const count = 1 + Math.floor(nextRandom(s) * MAX_WISH);
+  return Array.from({ length: count }, () => PRESENT_ORDER[Math.floor(nextRandom(s) * PRESENT_ORDER.length)]);
+};
+
+export const countKind = (kinds: PresentKind[], kind: PresentKind) => kinds.filter(k => k === kind).length;
+
+// The kind with the most outstanding wishes not already covered by the hold
+const mostWanted = (s: WorldState): PresentKind => {
+  let best: PresentKind = PRESENT_ORDER[0];
+  let bestShortfall = -Infinity;
+  for (const kind of PRESENT_ORDER) {
+    const wanted = s.islands.reduce((n, island) => island.delivered ? n : n + countKind(island.wish, kind), 0);
+    const shortfall = wanted - countKind(s.cargo.hold, kind);
+    if (shortfall > bestShortfall) {
+      best = kind;
+      bestShortfall = shortfall;
+    }
+  }
+  return best;
+};
+
+export const inHarbor = (s: WorldState) =>
+  Math.hypot(s.player.x - s.harbor.x, s.player.y - s.harbor.y) < s.harbor.radius;
+
+// Loads one present at a time while the ship lies in the harbor
+export const updateHarbor = (s: WorldState, dt: number) => {
+  const cargo = s.cargo;
+  if (!inHarbor(s) || cargo.hold.length >= cargo.capacity) {
+    cargo.loadTimer = HARBOR_LOAD_FRAMES;
+    return;
+  }
+  cargo.loadTimer -= dt;
+  if (cargo.loadTimer > 0) return;
+  cargo.hold.push(mostWanted(s));
+  cargo.loadTimer = HARBOR_LOAD_FRAMES;
+  if (cargo.hold.length === cargo.capacity) s.events.push({ type: 'restocked', presents: cargo.hold.length });
+};
+
+// Fills the hold for the start of a voyage
+export const stockHold = (s: WorldState) => {
+  while (s.cargo.hold.length < s.cargo.capacity) s.cargo.hold.push(mostWanted(s));
+};
+
+// Islands reveal what they want once Santa sails close enough to read the list
+export const revealWishes = (s: WorldState) => {
+  for (const island of s.islands) {
+    if (island.wishKnown || island.delivered) continue;
+    if (Math.hypot(s.player.x - island.x, s.player.y - island.y) < WISH_REVEAL_RANGE) {
+      island.wishKnown = true;
+      s.events.push({ type: 'wishRevealed', island });
+    }
+  }
+};
+
+// Unloads one present per wish, the right kind when it is aboard and the
+// nearest thing to hand when not. Returns nothing when the hold is too light
+// to fill the order.
+export const unloadFor = (s: WorldState, island: Island) => {
+  const hold = s.cargo.hold;
+  if (hold.length < island.wish.length) return null;
+  const given: PresentKind[] = [];
+  const unmatched: PresentKind[] = [];
+  for (const kind of island.wish) {
+    const at = hold.indexOf(kind);
+    if (at >= 0) given.push(...hold.splice(at, 1));
+    else unmatched.push(kind);
+  }
+  const matched = given.length;
+  for (let i = 0; i < unmatched.length; i++) given.push(hold.shift()!);
+  return { given, matched };
+};
+
+// A hard hit may shake a present loose; the bigger the hit, the likelier
+export const shakeCargo = (s: WorldState, damage: number) => {
+  const hold = s.cargo.hold;
+  if (hold.length === 0 || nextRandom(s) >= damage * CARGO_LOSS_CHANCE) return;
+  hold.splice(Math.floor(nextRandom(s) * hold.length), 1);
+  s.events.push({ type: 'cargoLost', x: s.player.x, y: s.player.y });
+};
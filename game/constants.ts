@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Game Constants ---
+export const WORLD_SIZE = 4000; // Open voyages; campaign voyages grow past it
+export const SHIP_THRUST = 0.15; // Reduced from 0.35 for better control
+export const TURN_TORQUE = 0.0015; // Reduced from 0.0025 for heavier feel
+export const MAX_ANGULAR_VELOCITY = 0.025; // Reduced from 0.04
+export const ANGULAR_DRAG = 0.96; // Resistance to spinning
+export const FORWARD_DRAG = 0.99; // Water resistance moving forward
+export const SIDEWAYS_DRAG = 0.92; // "Keel" resistance (prevents sliding sideways)
+export const CANNON_SPEED = 9; // Reduced from 16
+export const CANNON_COOLDOWN = 50; // Slower fire rate for broadsides
+export const ENEMY_COOLDOWN = 90;
+
+// --- World Population ---
+export const ISLAND_COUNT = 12;
+export const AMBIENT_GLINTS = 80; // Per WORLD_SIZE square, scaled with the sea
+
+// --- Particles ---
+// Purely cosmetic (see particles.ts). life is in units that fade 0.02 a frame and
+// doubles as opacity; spread scatters each particle's velocity at random and
+// speed sends it along the emitter's heading.
+export const PARTICLE_EMITTERS = {
+  wake: { type: 'water', color: 'rgba(255, 255, 255, 0.3)', life: [0.8, 0.8], size: [3, 8], spread: 0, speed: 0 },
+  fireOrange: { type: 'fire', color: '#f97316', life: [0.5, 1.0], size: [3, 6], spread: 8, speed: 0 },
+  fireRed: { type: 'fire', color: '#ef4444', life: [0.5, 1.0], size: [3, 6], spread: 8, speed: 0 },
+  blastSmoke: { type: 'smoke', color: 'rgba(100,100,100,0.5)', life: [1.0, 2.0], size: [5, 12], spread: 4, speed: 0 },
+  muzzle: { type: 'muzzle', color: 'rgba(255,200,100,0.8)', life: [0.3, 0.3], size: [5, 8], spread: 0, speed: 2 },
+  gunSmoke: { type: 'smoke', color: 'rgba(200,200,200,0.4)', life: [0.6, 0.6], size: [4, 7], spread: 0, speed: 1 },
+  trail: { type: 'smoke', color: 'rgba(220,220,220,0.2)', life: [0.4, 0.4], size: [2, 3], spread: 0, speed: 0 },
+  sand: { type: 'smoke', color: 'rgba(253,224,71,0.5)', life: [0.4, 0.8], size: [3, 6], spread: 3, speed: 0 }
+} as const;
+export type EmitterId = keyof typeof PARTICLE_EMITTERS;
+export const PARTICLE_BUDGET = 2500; // Hard cap on live particles, ambient glints included
+export const PARTICLE_THIN_FROM = 0.6; // Share of the budget past which emitters start thinning out
+
+// --- Spatial Index ---
+export const SPATIAL_CELL_SIZE = 256; // World units per cell: a few ship lengths, so most lookups touch only a handful of cells
+export const SPATIAL_SLACK = 32; // Headroom for ships that move between being filed and being looked up in the same tick
+
+// --- Rendering ---
+// Performance composites cached sprites of hulls and islands (see sprites.ts);
+// Quality redraws every detail each frame
+export const RENDER_QUALITY = {
+  fast: { label: 'Performance', sprites: true },
+  full: { label: 'Quality', sprites: false }
+} as const;
+export type RenderQuality = keyof typeof RENDER_QUALITY;
+export const DEFAULT_RENDER_QUALITY: RenderQuality = 'fast';
+
+// --- Enemy Classes ---
+// aggression (0..1) widens detection, delays fleeing and makes flanking likelier.
+// fleeAt is the hull fraction below which the ship breaks off.
+// shot picks the ammo from WEAPONS; damageScale scales its damage (8 per round shot for both).
+export const ENEMY_CLASSES = {
+  pirate: { health: 40, radius: 30, bounty: 150, cooldown: ENEMY_COOLDOWN, guns: 'chasers', aggression: 0.5, fleeAt: 0.3, shot: 'round', damageScale: 0.55 },
+  elite: { health: 100, radius: 36, bounty: 400, cooldown: 110, guns: 'broadside', aggression: 0.85, fleeAt: 0.15, shot: 'round', damageScale: 0.55 } // Heavier, fires broadsides
+} as const;
+export const ELITE_SCORE_THRESHOLD = 1500; // Elites start appearing past this bounty
+export const ELITE_CHANCE_RAMP = 6000; // Bounty over the threshold for elites to reach max odds
+export const ELITE_MAX_CHANCE = 0.45;
+export const BROADSIDE_RANGE = 450;
+
+// --- Islands & Shallows ---
+export const HULL_BEAM = 0.6; // Fraction of a ship's radius that actually touches the shore
+export const SHALLOWS_WIDTH = 60; // Ring of shoal water around every island
+export const SHALLOWS_DRAG = 0.96; // Extra per-frame drag while in the shallows
+export const GROUNDING_SPEED = 2.5; // Impact speed into the shore before the hull takes damage
+export const GROUNDING_DAMAGE = 5; // Hull per unit of impact speed above the threshold
+export const SHORE_BOUNCE = 0.3; // Fraction of impact speed thrown back off the beach
+export const AI_SHORE_LOOKAHEAD = 260; // How far ahead enemies look for land
+
+// --- Island Variants ---
+// Coastlines are charted from noise (see islands.ts). rough is how far the shore
+// wanders in and out as a fraction of the island's size; lower octaves give
+// broad bays and headlands, higher ones a ragged shore. Villages take
+// deliveries at their pier rather than on any beach.
+export const ISLAND_VARIANTS = {
+  atoll: { label: 'Palm Atoll', rough: 0.3, octaves: 3 },
+  arctic: { label: 'Arctic Isle', rough: 0.6, octaves: 5 },
+  volcanic: { label: 'Volcanic Rock', rough: 0.45, octaves: 4 },
+  village: { label: 'Village', rough: 0.35, octaves: 3 }
+} as const;
+export type IslandVariant = keyof typeof ISLAND_VARIANTS;
+export const ISLAND_VARIANT_ORDER: IslandVariant[] = ['atoll', 'arctic', 'volcanic', 'village']; // As rolled when charting
+export const COAST_POINTS = 48; // Shore samples around each island
+export const COAST_MIN = 0.55; // Narrowest the shore may pinch, as a fraction of the island's size
+export const DOCK_LENGTH = 70; // How far a village pier reaches out past the beach
+export const DOCK_BERTH = 45; // Radius around the pier head where presents are handed over
+
+// --- Weapons ---
+// Per-projectile stats. pellets is shots per gun, range is frames before the ball
+// drops into the sea, ammo is volleys carried (null = bottomless).
+export const WEAPONS = {
+  round: { name: 'Round Shot', damage: 15, speed: CANNON_SPEED, spread: 0.2, pellets: 1, range: 150, size: 4, effect: 'none', ammo: null },
+  chain: { name: 'Chain Shot', damage: 8, speed: 8, spread: 0.15, pellets: 1, range: 100, size: 5, effect: 'sails', ammo: 12 }, // Shreds rigging
+  grape: { name: 'Grapeshot', damage: 5, speed: 10, spread: 0.7, pellets: 4, range: 35, size: 2, effect: 'none', ammo: 15 }, // Close-range spray
+  coal: { name: 'Coal Shot', damage: 6, speed: 8, spread: 0.1, pellets: 1, range: 130, size: 5, effect: 'slow', ammo: 8 } // For the naughty list
+} as const;
+export type WeaponId = keyof typeof WEAPONS;
+export const WEAPON_ORDER: WeaponId[] = ['round', 'chain', 'grape', 'coal'];
+export const SAIL_DAMAGE_PER_HIT = 0.12; // Fraction of thrust lost per chain shot hit
+export const MAX_SAIL_DAMAGE = 0.6;
+export const SAIL_REPAIR_RATE = 0.0004; // Per frame
+export const COAL_SLOW_FRAMES = 180;
+export const COAL_SLOW_FACTOR = 0.45; // Thrust multiplier while slowed
+export const SALVAGE_ROUNDS = { pirate: 1, elite: 3 } as const; // Special rounds recovered per type from a sunk ship
+
+// --- Enemy AI ---
+export const AI_DETECT_RANGE = 900; // Scaled by aggression
+export const AI_ENGAGE_RANGE = 500;
+export const AI_ORBIT_RADIUS = 300; // Distance broadside ships circle at
+export const AI_FLANK_OFFSET = 260;
+export const AI_ALLY_RANGE = 700; // How far a ship looks for friends to regroup with
+export const AI_SAFE_DISTANCE = 1300; // Fleeing ships stop running past this
+export const AI_DECISION_INTERVAL = 45; // Frames between re-evaluating tactics
+
+// --- Cargo & Harbor ---
+export const CARGO_CAPACITY = 5; // Presents Santa can carry at once
+export const HARBOR_OFFSET = 220; // North Pole harbor sits just north of the spawn point
+export const HARBOR_RADIUS = 90;
+export const HARBOR_LOAD_FRAMES = 30; // Frames to swing one present aboard
+export const CARGO_LOSS_CHANCE = 0.03; // Odds per point of hull damage of a present going overboard
+
+// --- Presents & Wishlists ---
+// Colors match the boxes drawn on Santa's deck
+export const PRESENT_KINDS = {
+  toy: { label: 'Toys', color: '#ef4444' },
+  tree: { label: 'Trees', color: '#22c55e' },
+  book: { label: 'Books', color: '#3b82f6' },
+  gold: { label: 'Gold Coins', color: '#eab308' }
+} as const;
+export type PresentKind = keyof typeof PRESENT_KINDS;
+export const PRESENT_ORDER: PresentKind[] = ['toy', 'tree', 'book', 'gold'];
+export const MAX_WISH = 2; // Presents an island can ask for
+export const WISH_REVEAL_RANGE = 700; // How close Santa must sail to read an island's wishlist
+
+// --- Story Effects ---
+// Hard limits on what the narrator may hand out; anything outside is rejected
+export const STORY_MAX_EFFECTS = 3;
+export const STORY_MAX_GOLD = 300;
+export const STORY_MAX_REPAIR = 25;
+export const STORY_MAX_CARGO = 2;
+export const STORY_MAX_AMBUSH = 2;
+export const AMBUSH_RANGE = 650; // Ambushers appear this far from Santa
+
+// --- Scoring ---
+export const DELIVERY_SCORE = 500; // For a full delivery of what was wished for, prorated by matches
+export const PERFECT_DELIVERY_BONUS = 250;
+export const MIXUP_PENALTY = 150; // Per present that was not on the wishlist
+
+// --- Waves & Difficulty ---
+// Timings are in simulation frames (1 frame = 1/60s)
+export const DIFFICULTY_PRESETS = {
+  easy: { label: 'Calm Seas', firstWave: 2, waveGrowth: 0.6, maxAlive: 5, spawnInterval: 150, restDuration: 900, firstRest: 300, eliteBias: -0.1, enemyHealth: 0.8 },
+  normal: { label: 'Choppy Waters', firstWave: 3, waveGrowth: 1, maxAlive: 8, spawnInterval: 110, restDuration: 600, firstRest: 180, eliteBias: 0, enemyHealth: 1 },
+  hard: { label: 'Kraken Waters', firstWave: 4, waveGrowth: 1.5, maxAlive: 12, spawnInterval: 70, restDuration: 420, firstRest: 90, eliteBias: 0.15, enemyHealth: 1.3 }
+} as const;
+export type DifficultyId = keyof typeof DIFFICULTY_PRESETS;
+export const DEFAULT_DIFFICULTY: DifficultyId = 'normal';
+export const SCORE_PER_INTENSITY = 2500; // Bounty that counts as one extra wave of escalation
+export const DELIVERY_INTENSITY = 0.5; // Each delivered island stirs up this much extra trouble
+export const WAVE_ELITE_BONUS = 0.03; // Extra elite odds per wave
+
+// --- Game Modes ---
+// Kept apart on the leaderboard, like difficulties
+export const GAME_MODES = {
+  voyage: { label: 'Open Voyage' },
+  campaign: { label: 'Campaign' }
+} as const;
+export type GameMode = keyof typeof GAME_MODES;
+
+// --- Campaign ---
+// Each voyage of a campaign charts a bigger sea with more islands and a nastier
+// enemy mix, and stacks one more modifier on top.
+export const CAMPAIGN_ISLAND_STEP = 3;
+export const CAMPAIGN_MAX_ISLANDS = 30;
+export const CAMPAIGN_SIZE_STEP = 800;
+export const CAMPAIGN_MAX_SIZE = 9600;
+export const CAMPAIGN_ELITE_STEP = 0.05; // Extra elite odds per voyage
+
+export const VOYAGE_MODIFIERS = {
+  gales: { label: 'Gales', description: 'Stronger winds that shift twice as often' },
+  ironclads: { label: 'Ironclads', description: 'Pirate hulls are 30% tougher' },
+  privateers: { label: 'Privateers', description: 'Waves come half again as large' },
+  leanStores: { label: 'Lean Stores', description: 'The hold carries one present fewer' }
+} as const;
+export type ModifierId = keyof typeof VOYAGE_MODIFIERS;
+export const MODIFIER_ORDER = Object.keys(VOYAGE_MODIFIERS) as ModifierId[];
+export const GALE_STRENGTH = 1.3;
+export const GALE_SHIFT = 0.5; // Fraction of the usual time between wind shifts
+export const IRONCLAD_HEALTH = 1.3;
+export const PRIVATEER_WAVE = 1.5;
+
+// --- Fixed Timestep ---
+export const SIM_HZ = 60;
+export const SIM_DT = 1; // Simulation units per tick (1 = one 60fps frame)
+export const SIM_STEP_MS = 1000 / SIM_HZ;
+export const MAX_FRAME_MS = 250; // Drop time after a stall (tab switch) instead of fast-forwarding
+
+// --- Wind & Sails ---
+export const NO_GO_ANGLE = Math.PI / 4; // Can't sail closer than 45deg to the wind
+export const CLOSE_HAULED_ANGLE = Math.PI / 3; // Full power from here on
+export const WIND_MIN_STRENGTH = 0.6;
+export const WIND_MAX_STRENGTH = 1.4;
+export const WIND_TURN_RATE = 0.0015; // Radians per frame while the wind veers
+export const WIND_SHIFT_MIN = 400; // Frames between wind shifts
+export const WIND_SHIFT_MAX = 900;
+export const TRIM_RATE = 0.015; // Sail trim change per frame while Q/E is held
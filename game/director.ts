@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, DirectorState } from './types';
+import {
+  DIFFICULTY_PRESETS, DifficultyId, SCORE_PER_INTENSITY, DELIVERY_INTENSITY, WAVE_ELITE_BONUS,
+  ELITE_SCORE_THRESHOLD, ELITE_CHANCE_RAMP, ELITE_MAX_CHANCE, PRIVATEER_WAVE
+} from './constants';
+import { hasModifier } from './voyage';
+import { nextRandom } from './rng';
+
+// The director owns the enemy population. It runs on simulation time (so it
+// pauses with the game and dies with a reset) and paces the fight in numbered
+// waves separated by rest periods, escalating with bounty and deliveries.
+
+export type EnemySpawn = 'pirate' | 'elite';
+
+export const createDirector = (difficulty: DifficultyId): DirectorState => ({
+  difficulty,
+  wave: 0,
+  phase: 'rest',
+  timer: DIFFICULTY_PRESETS[difficulty].firstRest,
+  toSpawn: 0,
+  spawnTimer: 0
+});
+
+export const presetOf = (s: WorldState) => DIFFICULTY_PRESETS[s.director.difficulty];
+
+// Elites grow more common as the bounty rises
+export const eliteChance = (score: number) =>
+  Math.min(ELITE_MAX_CHANCE, Math.max(0, (score - ELITE_SCORE_THRESHOLD) / ELITE_CHANCE_RAMP * ELITE_MAX_CHANCE));
+
+// How hard the sea is pushing back right now
+export const intensity = (s: WorldState) => {
+  const delivered = s.islands.filter(i => i.delivered).length;
+  return s.director.wave + s.score / SCORE_PER_INTENSITY + delivered * DELIVERY_INTENSITY;
+};
+
+const waveSize = (s: WorldState) => {
+  const preset = presetOf(s);
+  const size = preset.firstWave + (intensity(s) - 1) * preset.waveGrowth;
+  return Math.round(size * (hasModifier(s, 'privateers') ? PRIVATEER_WAVE : 1));
+};
+
+// Advances the director and returns the enemies to spawn this tick.
+export const updateDirector = (s: WorldState, dt: number): EnemySpawn[] => {
+  const d = s.director;
+  const preset = presetOf(s);
+  const alive = s.enemies.filter(e => e.active).length;
+  const spawns: EnemySpawn[] = [];
+
+  d.timer -= dt;
+
+  if (d.phase === 'rest') {
+    if (d.timer > 0) return spawns;
+    d.wave++;
+    d.phase = 'active';
+    d.toSpawn = Math.max(1, waveSize(s));
+    d.spawnTimer = 0;
+    s.events.push({ type: 'waveStarted', wave: d.wave });
+  }
+
+  // Trickle the wave in, never exceeding the preset's population cap
+  d.spawnTimer -= dt;
+  if (d.toSpawn > 0 && d.spawnTimer <= 0 && alive < preset.maxAlive) {
+    const elite = Math.max(0, eliteChance(s.score) + preset.eliteBias + s.voyage.eliteBias + d.wave * WAVE_ELITE_BONUS);
+    spawns.push(nextRandom(s) < elite ? 'elite' : 'pirate');
+    d.toSpawn--;
+    d.spawnTimer = preset.spawnInterval;
+  }
+
+  // Wave cleared: every ship spawned and sunk (or fled off the map)
+  if (d.toSpawn === 0 && alive === 0 && spawns.length === 0) {
+    s.events.push({ type: 'waveCleared', wave: d.wave });
+    d.phase = 'rest';
+    d.timer = preset.restDuration;
+    s.enemies = s.enemies.filter(e => e.active); // Drop the wrecks
+  }
+
+  return spawns;
+};
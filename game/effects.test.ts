@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, it, expect } from 'vitest';
+import { STORY_MAX_EFFECTS, STORY_MAX_GOLD, STORY_MAX_REPAIR, STORY_MAX_CARGO, STORY_MAX_AMBUSH } from './constants';
+import { validateEffect, validateEffects, parseStoryResponse, applyStoryEffects } from './effects';
+import { createWorld } from './simulation';
+
+// Narrator responses are untrusted model output: anything outside the effect
+// vocabulary or its bounds must reject the whole response.
+
+const ISLANDS = ['Isle 1', 'Isle 2'];
+
+const story = (effects: unknown) => JSON.stringify({ narration: 'Yo ho ho!', effects });
+
+describe('validateEffect', () => {
+  it('accepts every kind of effect within its bounds', () => {
+    expect(validateEffect({ kind: 'gold', amount: STORY_MAX_GOLD }, ISLANDS)).toEqual({ kind: 'gold', amount: STORY_MAX_GOLD });
+    expect(validateEffect({ kind: 'repair', amount: 1 }, ISLANDS)).toEqual({ kind: 'repair', amount: 1 });
+    expect(validateEffect({ kind: 'cargo', present: 'toy', count: STORY_MAX_CARGO }, ISLANDS)).toEqual({ kind: 'cargo', present: 'toy', count: STORY_MAX_CARGO });
+    expect(validateEffect({ kind: 'rumor', island: 'Isle 2' }, ISLANDS)).toEqual({ kind: 'rumor', island: 'Isle 2' });
+    expect(validateEffect({ kind: 'ambush', ships: STORY_MAX_AMBUSH }, ISLANDS)).toEqual({ kind: 'ambush', ships: STORY_MAX_AMBUSH });
+  });
+
+  it('drops fields the vocabulary does not know', () => {
+    expect(validateEffect({ kind: 'gold', amount: 10, multiplier: 100 }, ISLANDS)).toEqual({ kind: 'gold', amount: 10 });
+  });
+
+  it('rejects unknown effect types', () => {
+    expect(() => validateEffect({ kind: 'teleport', x: 0, y: 0 }, ISLANDS)).toThrow(/Unknown effect/);
+    expect(() => validateEffect({ amount: 10 }, ISLANDS)).toThrow(/Unknown effect/);
+    expect(() => validateEffect('gold', ISLANDS)).toThrow(/not an object/);
+    expect(() => validateEffect(null, ISLANDS)).toThrow(/not an object/);
+  });
+
+  it('rejects out-of-range magnitudes', () => {
+    expect(() => validateEffect({ kind: 'gold', amount: STORY_MAX_GOLD + 1 }, ISLANDS)).toThrow(/Gold out of range/);
+    expect(() => validateEffect({ kind: 'gold', amount: 0 }, ISLANDS)).toThrow(/Gold out of range/);
+    expect(() => validateEffect({ kind: 'gold', amount: 12.5 }, ISLANDS)).toThrow(/Gold out of range/);
+    expect(() => validateEffect({ kind: 'gold', amount: '50' }, ISLANDS)).toThrow(/Gold out of range/);
+    expect(() => validateEffect({ kind: 'repair', amount: STORY_MAX_REPAIR + 1 }, ISLANDS)).toThrow(/Repair out of range/);
+    expect(() => validateEffect({ kind: 'cargo', present: 'toy', count: -1 }, ISLANDS)).toThrow(/Cargo out of range/);
+    expect(() => validateEffect({ kind: 'cargo', present: 'coal', count: 1 }, ISLANDS)).toThrow(/Unknown present/);
+    expect(() => validateEffect({ kind: 'ambush', ships: STORY_MAX_AMBUSH + 1 }, ISLANDS)).toThrow(/Ambush out of range/);
+  });
+
+  it('rejects rumors about islands not in this voyage', () => {
+    expect(() => validateEffect({ kind: 'rumor', island: 'Isle 99' }, ISLANDS)).toThrow(/unknown island/);
+    expect(() => validateEffect({ kind: 'rumor' }, ISLANDS)).toThrow(/unknown island/);
+  });
+});
+
+describe('validateEffects', () => {
+  it('rejects payloads that are not a list', () => {
+    expect(() => validateEffects({ kind: 'gold', amount: 10 }, ISLANDS)).toThrow(/not a list/);
+    expect(() => validateEffects('gold', ISLANDS)).toThrow(/not a list/);
+    expect(() => validateEffects(null, ISLANDS)).toThrow(/not a list/);
+  });
+
+  it('rejects too many effects', () => {
+    const effects = Array.from({ length: STORY_MAX_EFFECTS + 1 }, () => ({ kind: 'gold', amount: 1 }));
+    expect(() => validateEffects(effects, ISLANDS)).toThrow(/Too many effects/);
+  });
+});
+
+describe('parseStoryResponse', () => {
+  it('accepts a well-formed story', () => {
+    expect(parseStoryResponse(story([{ kind: 'rumor', island: 'Isle 1' }]), ISLANDS))
+      .toEqual({ narration: 'Yo ho ho!', effects: [{ kind: 'rumor', island: 'Isle 1' }] });
+    expect(parseStoryResponse(JSON.stringify({ narration: 'Calm seas.' }), ISLANDS).effects).toEqual([]);
+  });
+
+  it('throws away the whole story over one bad effect', () => {
+    expect(() => parseStoryResponse(story([{ kind: 'gold', amount: 10 }, { kind: 'gold', amount: 1e6 }]), ISLANDS)).toThrow(/Gold out of range/);
+    expect(() => parseStoryResponse(story([{ kind: 'rumor', island: 'Atlantis' }]), ISLANDS)).toThrow(/unknown island/);
+    expect(() => parseStoryResponse(story({ kind: 'gold', amount: 10 }), ISLANDS)).toThrow(/not a list/);
+  });
+
+  it('rejects malformed narration', () => {
+    expect(() => parseStoryResponse('not json', ISLANDS)).toThrow(/not valid JSON/);
+    expect(() => parseStoryResponse(JSON.stringify({ effects: [] }), ISLANDS)).toThrow(/missing/);
+    expect(() => parseStoryResponse(JSON.stringify({ narration: '   ' }), ISLANDS)).toThrow(/missing/);
+    expect(() => parseStoryResponse(JSON.stringify({ narration: 'x'.repeat(1000) }), ISLANDS)).toThrow(/too long/);
+  });
+});
+
+describe('applyStoryEffects', () => {
+  it('applies each effect and hands ambushes back to the simulation', () => {
+    const s = createWorld('ABCDEF');
+    s.cargo.hold = [];
+    s.player.health = s.player.maxHealth - 5;
+    const ambushers = applyStoryEffects(s, [
+      { kind: 'gold', amount: 100 },
+      { kind: 'repair', amount: STORY_MAX_REPAIR },
+      { kind: 'cargo', present: 'book', count: 2 },
+      { kind: 'rumor', island: s.islands[0].name },
+      { kind: 'ambush', ships: 2 }
+    ]);
+    expect(s.score).toBe(100);
+    expect(s.player.health).toBe(s.player.maxHealth);
+    expect(s.cargo.hold).toEqual(['book', 'book']);
+    expect(s.islands[0].rumored).toBe(true);
+    expect(ambushers).toBe(2);
+    expect(s.events.filter(e => e.type === 'storyEffect')).toHaveLength(5);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, StoryEffect } from './types';
+import {
+  PRESENT_KINDS, PresentKind, STORY_MAX_EFFECTS, STORY_MAX_GOLD, STORY_MAX_REPAIR, STORY_MAX_CARGO, STORY_MAX_AMBUSH
+} from './constants';
+
+// The narrator is allowed to change the world, but only through this narrow,
+// bounded vocabulary. Responses come from a language model, so everything is
+// treated as untrusted: one bad field rejects the whole response.
+
+export interface StoryResponse {
+  narration: string;
+  effects: StoryEffect[];
+}
+
+const MAX_NARRATION = 400;
+
+const isInt = (n: unknown, min: number, max: number): n is number =>
+  Number.isInteger(n) && (n as number) >= min && (n as number) <= max;
+
+// Checks one effect against the vocabulary and its bounds. Rumors may only
+// point at islands that exist in this voyage.
+export const validateEffect = (raw: any, islandNames: string[]): StoryEffect => {
+  if (!raw || typeof raw !== 'object') throw new Error("Effect is not an object.");
+  switch (raw.kind) {
+    case 'gold':
+      if (!isInt(raw.amount, 1, STORY_MAX_GOLD)) throw new Error(`Gold out of range: ${raw.amount}`);
+      return { kind: 'gold', amount: raw.amount };
+    case 'repair':
+      if (!isInt(raw.amount, 1, STORY_MAX_REPAIR)) throw new Error(`Repair out of range: ${raw.amount}`);
+      return { kind: 'repair', amount: raw.amount };
+    case 'cargo':
+      if (!Object.prototype.hasOwnProperty.call(PRESENT_KINDS, raw.present)) throw new Error(`Unknown present: ${raw.present}`);
+      if (!isInt(raw.count, 1, STORY_MAX_CARGO)) throw new Error(`Cargo out of range: ${raw.count}`);
+      return { kind: 'cargo', present: raw.present as PresentKind, count: raw.count };
+    case 'rumor':
+      if (!islandNames.includes(raw.island)) throw new Error(`Rumor about unknown island: ${raw.island}`);
+      return { kind: 'rumor', island: raw.island };
+    case 'ambush':
+      if (!isInt(raw.ships, 1, STORY_MAX_AMBUSH)) throw new Error(`Ambush out of range: ${raw.ships}`);
+      return { kind: 'ambush', ships: raw.ships };
+    default:
+      throw new Error(`Unknown effect: ${raw.kind}`);
+  }
+};
+
+export const validateEffects = (raw: unknown, islandNames: string[]): StoryEffect[] => {
+  if (!Array.isArray(raw)) throw new Error("Effects are not a list.");
+  if (raw.length > STORY_MAX_EFFECTS) throw new Error(`Too many effects: ${raw.length}`);
+  return raw.map(effect => validateEffect(effect, islandNames));
+};
+
+// Parses a model response; throws on anything malformed or out of bounds
+export const parseStoryResponse = (text: string, islandNames: string[]): StoryResponse => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Narration is not valid JSON.");
+  }
+  if (!data || typeof data.narration !== 'string' || !data.narration.trim()) throw new Error("Narration is missing.");
+  if (data.narration.length > MAX_NARRATION) throw new Error("Narration is too long.");
+  return { narration: data.narration.trim(), effects: validateEffects(data.effects ?? [], islandNames) };
+};
+
+// Applies validated effects to the world. Ambushes are returned for the
+// simulation to spawn, as with the director.
+export const applyStoryEffects = (s: WorldState, effects: StoryEffect[]) => {
+  let ambushers = 0;
+  for (const effect of effects) {
+    switch (effect.kind) {
+      case 'gold':
+        s.score += effect.amount;
+        break;
+      case 'repair':
+        s.player.health = Math.min(s.player.maxHealth, s.player.health + effect.amount);
+        break;
+      case 'cargo': {
+        const room = s.cargo.capacity - s.cargo.hold.length;
+        for (let i = 0; i < Math.min(room, effect.count); i++) s.cargo.hold.push(effect.present);
+        break;
+      }
+      case 'rumor': {
+        const island = s.islands.find(i => i.name === effect.island);
+        if (island && !island.delivered) {
+          island.rumored = true;
+          island.wishKnown = true;
+        }
+        break;
+      }
+      case 'ambush':
+        ambushers += effect.ships;
+        break;
+    }
+    s.events.push({ type: 'storyEffect', effect });
+  }
+  return ambushers;
+};
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, Entity } from './types';
+
+// The simulation ticks at a fixed rate, but displays refresh at whatever rate
+// they like. The renderer blends between the pose captured before the latest
+// tick and the current one so motion stays smooth at 30, 60 or 144 Hz.
+
+export interface Pose { x: number; y: number; rotation: number; }
+export interface Snapshot {
+  poses: Map<number, Pose>; // Keyed by entity id (ships and projectiles)
+  camera: { x: number; y: number };
+  time: number;
+}
+
+export interface RenderView {
+  snapshot: Snapshot | null;
+  alpha: number; // 0 = previous tick, 1 = current tick
+}
+
+export const captureSnapshot = (s: WorldState): Snapshot => {
+  const poses = new Map<number, Pose>();
+  const capture = (e: Entity) => poses.set(e.id, { x: e.x, y: e.y, rotation: e.rotation });
+  capture(s.player);
+  s.enemies.forEach(capture);
+  s.projectiles.forEach(capture);
+  return { poses, camera: { x: s.camera.x, y: s.camera.y }, time: s.time };
+};
+
+const lerp = (start: number, end: number, t: number) => start * (1 - t) + end * t;
+
+// Returns a copy of the entity placed between its previous and current pose.
+// Entities spawned during the latest tick have no previous pose and are drawn as-is.
+export const interpolateEntity = <T extends Entity>(e: T, view: RenderView): T => {
+  const prev = view.snapshot?.poses.get(e.id);
+  if (!prev) return e;
+  return {
+    ...e,
+    x: lerp(prev.x, e.x, view.alpha),
+    y: lerp(prev.y, e.y, view.alpha),
+    rotation: lerp(prev.rotation, e.rotation, view.alpha)
+  };
+};
+
+export const interpolateCamera = (s: WorldState, view: RenderView) => {
+  const prev = view.snapshot?.camera;
+  if (!prev) return { x: s.camera.x, y: s.camera.y, shake: s.camera.shake };
+  return { x: lerp(prev.x, s.camera.x, view.alpha), y: lerp(prev.y, s.camera.y, view.alpha), shake: s.camera.shake };
+};
+
+export const interpolateTime = (s: WorldState, view: RenderView) =>
+  view.snapshot ? lerp(view.snapshot.time, s.time, view.alpha) : s.time;
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, Island, Entity, Vector } from './types';
+import { ISLAND_VARIANTS, IslandVariant, COAST_POINTS, COAST_MIN, DOCK_LENGTH, DOCK_BERTH } from './constants';
+import { RngState, hashSeed, nextRandom } from './rng';
+
+// Island shapes. Each coastline is the shore's distance from the centre at
+// evenly spaced bearings, charted from fractal noise around the circle. It
+// rolls from a generator of its own keyed by the voyage code and the island,
+// so a voyage always charts the same shores and charting them never shifts
+// the world's rolls. Collision, gunnery and delivery all test this shape; the
+// island's radius only bounds it.
+
+const TAU = Math.PI * 2;
+
+// Periodic value noise: random heights at evenly spaced knots around the
+// circle, eased between, so the shore closes up without a seam
+const noiseRing = (r: RngState, knots: number) => Array.from({ length: knots }, () => nextRandom(r) * 2 - 1);
+
+const sampleRing = (ring: number[], t: number) => {
+  const x = t * ring.length;
+  const i = Math.floor(x);
+  const f = x - i;
+  const ease = f * f * (3 - 2 * f);
+  return ring[i % ring.length] * (1 - ease) + ring[(i + 1) % ring.length] * ease;
+};
+
+// Charts an island of roughly `size` at (x, y). A village's pier faces
+// roughly towards the middle of the sea (see clearDock).
+export const chartCoast = (s: WorldState, id: number, x: number, y: number, size: number, variant: IslandVariant) => {
+  const r = { rngState: hashSeed(`${s.seed}:coast:${id}`) };
+  const { rough, octaves } = ISLAND_VARIANTS[variant];
+
+  // Each octave has twice the knots and half the swing of the one before;
+  // three knots at the base gives a lobed outline
+  const rings = Array.from({ length: octaves }, (_, o) => noiseRing(r, 3 << o));
+  const weight = 2 - 2 ** (1 - octaves);
+  const coast = Array.from({ length: COAST_POINTS }, (_, k) => {
+    let n = 0;
+    rings.forEach((ring, o) => n += sampleRing(ring, k / COAST_POINTS) / 2 ** o);
+    return size * Math.max(COAST_MIN, 1 + rough * n / weight);
+  });
+
+  const centre = s.voyage.worldSize / 2;
+  const dock = variant === 'village'
+    ? Math.atan2(centre - y, centre - x) + (nextRandom(r) - 0.5) * Math.PI * 0.6
+    : null;
+  return { radius: Math.max(...coast), coast, dock };
+};
+
+// Shore distance from the centre along a bearing, between the charted samples
+export const coastRadius = (island: Island, bearing: number) => {
+  const { coast } = island;
+  const x = (((bearing / TAU) % 1) + 1) % 1 * coast.length;
+  const i = Math.floor(x);
+  const f = x - i;
+  return coast[i % coast.length] * (1 - f) + coast[(i + 1) % coast.length] * f;
+};
+
+// How far a point lies out to sea from the shore, measured along the line to
+// the centre; negative ashore
+export const shoreDistance = (island: Island, x: number, y: number) =>
+  Math.hypot(x - island.x, y - island.y) - coastRadius(island, Math.atan2(y - island.y, x - island.x));
+
+// Outward normal of the shore at a bearing, from the slope of the coast there
+export const shoreNormal = (island: Island, bearing: number): Vector => {
+  const h = Math.PI / island.coast.length;
+  const r = coastRadius(island, bearing);
+  const slope = (coastRadius(island, bearing + h) - coastRadius(island, bearing - h)) / (2 * h);
+  const cos = Math.cos(bearing);
+  const sin = Math.sin(bearing);
+  const nx = r * cos + slope * sin;
+  const ny = r * sin - slope * cos;
+  const length = Math.hypot(nx, ny) || 1;
+  return { x: nx / length, y: ny / length };
+};
+
+// Where ships tie up at the head of a village's pier
+export const dockBerth = (island: Island): Vector | null => {
+  if (island.dock === null) return null;
+  const reach = coastRadius(island, island.dock) + DOCK_LENGTH;
+  return { x: island.x + Math.cos(island.dock) * reach, y: island.y + Math.sin(island.dock) * reach };
+};
+
+const DOCK_SWINGS = 12; // Bearings tried around the island when a berth is crowded
+
+// Swings a village's pier round until its berth is clear of every shore and
+// inside the sea; neighbours charted later can crowd the bearing it was given
+export const clearDock = (s: WorldState, island: Island) => {
+  if (island.dock === null) return;
+  const start = island.dock;
+  const size = s.voyage.worldSize;
+  for (let k = 0; k < DOCK_SWINGS; k++) {
+    // Nearest bearings first, alternating sides
+    island.dock = start + ((k + 1) >> 1) * (k % 2 ? 1 : -1) * (TAU / DOCK_SWINGS);
+    const berth = dockBerth(island)!;
+    const inSea = berth.x > DOCK_BERTH && berth.y > DOCK_BERTH && berth.x < size - DOCK_BERTH && berth.y < size - DOCK_BERTH;
+    if (inSea && s.islands.every(other => shoreDistance(other, berth.x, berth.y) >= DOCK_BERTH)) return;
+  }
+  island.dock = start;
+};
+
+// Whether a ship is close enough to hand presents ashore: alongside any
+// beach, or for a village, berthed at its pier
+export const canDeliver = (island: Island, ship: Entity) => {
+  const berth = dockBerth(island);
+  if (berth) return Math.hypot(ship.x - berth.x, ship.y - berth.y) < DOCK_BERTH;
+  return shoreDistance(island, ship.x, ship.y) < ship.radius;
+};
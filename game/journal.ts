@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, SimEvent } from './types';
+import { PRESENT_KINDS } from './constants';
+
+// The journal outlives a single voyage: every narration, delivery, kill and
+// shipwreck is kept in local storage so past voyages can be browsed and
+// exported. Unlike the Captain's Log ticker, nothing here is ever dismissed.
+
+export type JournalKind = 'narration' | 'delivery' | 'kill' | 'shipwreck';
+
+export const JOURNAL_KINDS: Record<JournalKind, string> = {
+  narration: 'Narration',
+  delivery: 'Delivery',
+  kill: 'Kill',
+  shipwreck: 'Shipwreck'
+};
+
+export interface JournalEntry {
+  id: string;
+  kind: JournalKind;
+  text: string;
+  timestamp: number; // Wall-clock ms
+  voyage: string; // Seed code of the voyage it happened in
+  tick: number; // Simulation frame within that voyage
+  x: number;
+  y: number;
+}
+
+const STORAGE_KEY = 'santas-pirate-seas:journal';
+export const JOURNAL_LIMIT = 500; // Oldest entries are dropped past this
+
+let nextId = 0;
+
+export const createJournalEntry = (s: WorldState, kind: JournalKind, text: string, x: number, y: number): JournalEntry => ({
+  id: `${Date.now().toString(36)}-${nextId++}`,
+  kind,
+  text,
+  timestamp: Date.now(),
+  voyage: s.seed,
+  tick: s.frameCount,
+  x: Math.round(x),
+  y: Math.round(y)
+});
+
+// The simulation events worth remembering; everything else returns null
+export const journalEntryForEvent = (s: WorldState, event: SimEvent): JournalEntry | null => {
+  switch (event.type) {
+    case 'delivered': {
+      const { island, given, matched, score } = event;
+      const presents = given.map(k => PRESENT_KINDS[k].label).join(', ');
+      return createJournalEntry(s, 'delivery', `Delivered ${presents} to ${island.name} (${matched}/${given.length} wished for, ${score >= 0 ? '+' : ''}${score})`, island.x, island.y);
+    }
+    case 'enemySunk': {
+      const { enemy } = event;
+      return createJournalEntry(s, 'kill', `Sank ${enemy.type === 'elite' ? 'an elite pirate frigate' : 'a pirate sloop'}`, enemy.x, enemy.y);
+    }
+    case 'playerSunk':
+      return createJournalEntry(s, 'shipwreck', `Shipwrecked with ${s.score.toLocaleString()} bounty`, s.player.x, s.player.y);
+    default:
+      return null;
+  }
+};
+
+export const appendJournal = (journal: JournalEntry[], entries: JournalEntry[]) =>
+  [...journal, ...entries].slice(-JOURNAL_LIMIT);
+
+const isEntry = (raw: any): raw is JournalEntry =>
+  !!raw && typeof raw === 'object'
+  && typeof raw.id === 'string'
+  && Object.prototype.hasOwnProperty.call(JOURNAL_KINDS, raw.kind)
+  && typeof raw.text === 'string'
+  && typeof raw.voyage === 'string'
+  && [raw.timestamp, raw.tick, raw.x, raw.y].every(Number.isFinite);
+
+// Storage may be missing, full or hand-edited; a bad journal is never fatal
+export const loadJournal = (): JournalEntry[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(data) ? data.filter(isEntry).slice(-JOURNAL_LIMIT) : [];
+  } catch (error) {
+    console.warn("Could not read the journal:", error);
+    return [];
+  }
+};
+
+export const saveJournal = (journal: JournalEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(journal));
+  } catch (error) {
+    console.warn("Could not save the journal:", error);
+  }
+};
+
+// --- Export ---
+export const journalToJson = (journal: JournalEntry[]) => JSON.stringify(journal, null, 2);
+
+// One section per voyage, oldest first, as a log book would read
+export const journalToMarkdown = (journal: JournalEntry[]) => {
+  const lines = ["# Santa's Pirate Seas · Journal", ''];
+  let voyage: string | null = null;
+  for (const entry of journal) {
+    if (entry.voyage !== voyage) {
+      voyage = entry.voyage;
+      lines.push(`## Voyage ${voyage}`, '');
+    }
+    const when = new Date(entry.timestamp).toLocaleString();
+    lines.push(`- **${JOURNAL_KINDS[entry.kind]}** · ${when} · (${entry.x}, ${entry.y}): ${entry.text}`);
+  }
+  return lines.join('\n') + '\n';
+};
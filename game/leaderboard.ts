@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RunStats } from './types';
+import { DIFFICULTY_PRESETS, DifficultyId, GAME_MODES, GameMode } from './constants';
+
+// Best runs, kept in local storage. Every mode and difficulty keeps its own
+// top LEADERBOARD_SIZE so a calm-seas record never pushes out a kraken one.
+
+export const LEADERBOARD_SIZE = 10;
+const STORAGE_KEY = 'santas-pirate-seas:leaderboard';
+const NAME_KEY = 'santas-pirate-seas:captain';
+export const MAX_NAME_LENGTH = 16;
+
+export interface LeaderboardEntry {
+  id: string;
+  name: string;
+  score: number;
+  mode: GameMode;
+  difficulty: DifficultyId;
+  seed: string;
+  date: number; // Wall-clock ms
+  stats: RunStats;
+}
+
+export interface LeaderboardFilter {
+  mode: GameMode;
+  difficulty: DifficultyId;
+}
+
+const byScore = (a: LeaderboardEntry, b: LeaderboardEntry) => b.score - a.score || a.date - b.date;
+
+export const topScores = (board: LeaderboardEntry[], { mode, difficulty }: LeaderboardFilter) =>
+  board.filter(e => e.mode === mode && e.difficulty === difficulty).sort(byScore).slice(0, LEADERBOARD_SIZE);
+
+// Whether a score would make its table; zero never does
+export const qualifies = (board: LeaderboardEntry[], score: number, filter: LeaderboardFilter) => {
+  if (score <= 0) return false;
+  const top = topScores(board, filter);
+  return top.length < LEADERBOARD_SIZE || score > top[top.length - 1].score;
+};
+
+// Adds a run and trims its table back to size
+export const addScore = (board: LeaderboardEntry[], entry: LeaderboardEntry) => {
+  const kept = topScores([...board, entry], entry);
+  return [...board.filter(e => e.mode !== entry.mode || e.difficulty !== entry.difficulty), ...kept];
+};
+
+export const cleanName = (name: string) => name.replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH);
+
+const isEntry = (raw: any): raw is LeaderboardEntry =>
+  !!raw && typeof raw === 'object'
+  && typeof raw.id === 'string'
+  && typeof raw.name === 'string'
+  && typeof raw.seed === 'string'
+  && Object.prototype.hasOwnProperty.call(GAME_MODES, raw.mode)
+  && Object.prototype.hasOwnProperty.call(DIFFICULTY_PRESETS, raw.difficulty)
+  && Number.isFinite(raw.score) && Number.isFinite(raw.date)
+  && !!raw.stats && typeof raw.stats === 'object';
+
+// --- Storage ---
+export const loadLeaderboard = (): LeaderboardEntry[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(data) ? data.filter(isEntry) : [];
+  } catch (error) {
+    console.warn("Could not read the leaderboard:", error);
+    return [];
+  }
+};
+
+export const saveLeaderboard = (board: LeaderboardEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(board));
+  } catch (error) {
+    console.warn("Could not save the leaderboard:", error);
+  }
+};
+
+// The last name entered, to prefill the next one
+export const loadCaptainName = () => {
+  try {
+    return localStorage.getItem(NAME_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveCaptainName = (name: string) => {
+  try {
+    localStorage.setItem(NAME_KEY, name);
+  } catch {
+    // Not worth warning about; the name is only a convenience
+  }
+};
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { SIM_HZ, SIM_STEP_MS, MAX_FRAME_MS } from './constants';
+
+// Fixed-timestep accumulator. Frame time is banked and paid out in whole
+// simulation ticks, so a given input sequence yields the same world no matter
+// how often the display refreshes.
+
+export interface FixedStepClock { accumulator: number; }
+
+export const createClock = (): FixedStepClock => ({ accumulator: 0 });
+
+// Runs as many ticks as the elapsed time covers and returns the leftover
+// fraction of a tick, used as the render interpolation factor.
+export const advanceClock = (clock: FixedStepClock, elapsedMs: number, tick: () => void) => {
+  clock.accumulator += Math.max(0, Math.min(elapsedMs, MAX_FRAME_MS));
+  while (clock.accumulator >= SIM_STEP_MS) {
+    tick();
+    clock.accumulator -= SIM_STEP_MS;
+  }
+  return clock.accumulator / SIM_STEP_MS;
+};
+
+// Simulation ticks as m:ss of voyage time, for replays, saves and the log
+export const formatTicks = (ticks: number) => {
+  const seconds = Math.floor(ticks / SIM_HZ);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, Particle, ParticleSystem } from './types';
+import { PARTICLE_EMITTERS, EmitterId, PARTICLE_BUDGET, PARTICLE_THIN_FROM } from './constants';
+import { hashSeed, nextRandom, randomRange } from './rng';
+
+// Wakes, gun smoke, explosions and glints. Particles are pure decoration, so
+// they roll from their own generator: thinning them out under load never
+// shifts a gameplay roll. Dead particles are swapped out of the live list and
+// their objects recycled, so a long fight settles into allocating nothing.
+//
+// The budget is a hard cap on live particles. Past PARTICLE_THIN_FROM of it
+// emitters give out proportionally fewer, reaching none at the cap, so a big
+// battle looks sparser rather than slowing down.
+
+// Recycled particle objects, shared by every world
+const spare: Particle[] = [];
+
+export const createParticles = (seed: string): ParticleSystem => ({
+  live: [],
+  nextId: 1,
+  rngState: hashSeed(`${seed}:particles`)
+});
+
+// Fills a recycled particle (or a new one) and adds it to the live list
+const spawn = (fx: ParticleSystem, type: Particle['type'], color: string, x: number, y: number, vx: number, vy: number, life: number, maxLife: number, size: number) => {
+  const p = spare.pop() ?? { radius: 0, rotation: 0, active: true, velocity: { x: 0, y: 0 } } as Particle;
+  p.id = fx.nextId++;
+  p.x = x;
+  p.y = y;
+  p.velocity.x = vx;
+  p.velocity.y = vy;
+  p.life = life;
+  p.maxLife = maxLife;
+  p.color = color;
+  p.size = size;
+  p.type = type;
+  fx.live.push(p);
+};
+
+// Share of what emitters ask for that they get at the current load
+export const budgetShare = (fx: ParticleSystem) => {
+  const load = fx.live.length / PARTICLE_BUDGET;
+  if (load <= PARTICLE_THIN_FROM) return 1;
+  return Math.max(0, (1 - load) / (1 - PARTICLE_THIN_FROM));
+};
+
+// Emits about `count` particles at a point, heading along `angle`. Fractional
+// counts are rolled, so 0.3 is a 30% chance of one; the budget scales the count.
+export const emitParticles = (s: WorldState, emitter: EmitterId, x: number, y: number, count = 1, angle = 0) => {
+  const fx = s.particles;
+  const spec = PARTICLE_EMITTERS[emitter];
+  const wanted = count * budgetShare(fx);
+  let n = Math.floor(wanted);
+  if (nextRandom(fx) < wanted - n) n++;
+  n = Math.min(n, PARTICLE_BUDGET - fx.live.length);
+
+  const dirX = Math.cos(angle) * spec.speed;
+  const dirY = Math.sin(angle) * spec.speed;
+  for (let i = 0; i < n; i++) {
+    spawn(
+      fx, spec.type, spec.color, x, y,
+      dirX + (nextRandom(fx) - 0.5) * spec.spread,
+      dirY + (nextRandom(fx) - 0.5) * spec.spread,
+      randomRange(fx, spec.life[0], spec.life[1]), spec.life[1],
+      randomRange(fx, spec.size[0], spec.size[1])
+    );
+  }
+};
+
+// Ambient sparkles on the water; they never fade and are placed from the
+// world's own rolls while the sea is charted
+export const addGlint = (s: WorldState, x: number, y: number, size: number) =>
+  spawn(s.particles, 'glint', 'white', x, y, 0, 0, 1, 1, size);
+
+export const updateParticles = (s: WorldState, dt: number) => {
+  const fx = s.particles;
+  const live = fx.live;
+  let i = 0;
+  while (i < live.length) {
+    const part = live[i];
+    if (part.type === 'glint') {
+      // Ambient glints drift and now and then wink out and reappear elsewhere
+      part.x += Math.sin(s.time + part.id) * 0.2 * dt;
+      if (nextRandom(fx) > 0.99) part.x = randomRange(fx, 0, s.voyage.worldSize);
+      if (nextRandom(fx) > 0.99) part.y = randomRange(fx, 0, s.voyage.worldSize);
+      i++;
+      continue;
+    }
+
+    part.x += part.velocity.x * dt;
+    part.y += part.velocity.y * dt;
+    part.life -= 0.02 * dt;
+    part.size *= Math.pow(0.95, dt); // Shrink
+    if (part.life > 0) {
+      i++;
+      continue;
+    }
+    // Swap the last live particle into the gap; it is updated next
+    live[i] = live[live.length - 1];
+    live.pop();
+    if (spare.length < PARTICLE_BUDGET) spare.push(part);
+  }
+};
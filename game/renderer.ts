@@ -0,0 +1,877 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, Ship, Entity, Particle, Island } from './types';
+import {
+  WEAPONS, SHALLOWS_WIDTH, PRESENT_KINDS, PresentKind, SPATIAL_SLACK, RENDER_QUALITY, RenderQuality, DEFAULT_RENDER_QUALITY,
+  IslandVariant, DOCK_LENGTH, DOCK_BERTH
+} from './constants';
+import { RenderView, interpolateCamera, interpolateEntity, interpolateTime } from './interpolation';
+import { SpatialGrid, spatialIndex, queryRect } from './spatial';
+import { Sprite, renderSprite, drawSprite, createSpriteCache, cachedSprite } from './sprites';
+import { coastRadius, dockBerth } from './islands';
+
+// --- Helpers ---
+const lerp = (start: number, end: number, t: number) => start * (1 - t) + end * t;
+
+export const isInView = (e: Entity, camera: {x: number, y: number}, w: number, h: number) => {
+    return e.x + e.radius > camera.x && e.x - e.radius < camera.x + w &&
+           e.y + e.radius > camera.y && e.y - e.radius < camera.y + h;
+};
+
+// Camera Smooth Follow with LookAhead
+// Runs once per simulation tick (not per frame) so the follow speed is refresh-rate independent.
+export const updateCamera = (s: WorldState, width: number, height: number, follow = 0.08) => {
+    const { camera, player } = s;
+    // Look ahead based on velocity to see where we are going
+    const lookAheadX = player.velocity.x * 25;
+    const lookAheadY = player.velocity.y * 25;
+
+    const targetCamX = (player.x + lookAheadX) - width / 2;
+    const targetCamY = (player.y + lookAheadY) - height / 2;
+
+    camera.x = lerp(camera.x, targetCamX, follow);
+    camera.y = lerp(camera.y, targetCamY, follow);
+
+    // Clamp Camera
+    camera.x = Math.max(0, Math.min(s.voyage.worldSize - width, camera.x));
+    camera.y = Math.max(0, Math.min(s.voyage.worldSize - height, camera.y));
+};
+
+export const drawStar = (ctx: CanvasRenderingContext2D, cx: number, cy: number, spikes: number, outerRadius: number, innerRadius: number) => {
+  let rot = Math.PI / 2 * 3;
+  let x = cx;
+  let y = cy;
+  let step = Math.PI / spikes;
+
+  ctx.beginPath();
+  ctx.moveTo(cx, cy - outerRadius);
+  for (let i = 0; i < spikes; i++) {
+      x = cx + Math.cos(rot) * outerRadius;
+      y = cy + Math.sin(rot) * outerRadius;
+      ctx.lineTo(x, y);
+      rot += step;
+
+      x = cx + Math.cos(rot) * innerRadius;
+      y = cy + Math.sin(rot) * innerRadius;
+      ctx.lineTo(x, y);
+      rot += step;
+  }
+  ctx.lineTo(cx, cy - outerRadius);
+  ctx.closePath();
+  ctx.fill();
+}
+
+// --- REALISTIC SHIP RENDERER ---
+// Deck spots for Santa's presents: [x, y, size], filled in loading order
+const PRESENT_SLOTS = [[-6, 0, 6], [2, 2, 5], [-2, 5, 4], [-7, -7, 5], [2, -6, 5]];
+
+export const drawPresent = (ctx: CanvasRenderingContext2D, px: number, py: number, w: number, h: number, c: string) => {
+  ctx.fillStyle = c;
+  ctx.fillRect(px, py, w, h);
+  ctx.strokeStyle = 'rgba(255,255,255,0.5)';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(px, py, w, h);
+  ctx.fillStyle = 'white';
+  ctx.fillRect(px + w/2 - 1, py, 2, h);
+  ctx.fillRect(px, py + h/2 - 1, w, 2);
+};
+
+// Santa's home dock: a pier, a striped pole and a ring marking the loading berth
+const drawHarbor = (ctx: CanvasRenderingContext2D, s: WorldState, time: number) => {
+  const h = s.harbor;
+  const loading = s.cargo.hold.length < s.cargo.capacity && Math.hypot(s.player.x - h.x, s.player.y - h.y) < h.radius;
+  ctx.save();
+  ctx.translate(h.x, h.y);
+
+  ctx.strokeStyle = loading ? 'rgba(74,222,128,0.8)' : 'rgba(255,255,255,0.35)';
+  ctx.lineWidth = 2;
+  ctx.setLineDash([10, 8]);
+  ctx.lineDashOffset = -time * 20;
+  ctx.beginPath(); ctx.arc(0, 0, h.radius, 0, Math.PI * 2); ctx.stroke();
+  ctx.setLineDash([]);
+
+  // Pier
+  ctx.fillStyle = 'rgba(0,0,0,0.3)';
+  ctx.fillRect(-h.radius - 56, -8, 60, 22);
+  ctx.fillStyle = '#78350f';
+  ctx.fillRect(-h.radius - 60, -12, 60, 22);
+  ctx.strokeStyle = '#451a03';
+  ctx.lineWidth = 1;
+  for (let x = -h.radius - 60; x < -h.radius; x += 8) {
+      ctx.beginPath(); ctx.moveTo(x, -12); ctx.lineTo(x, 10); ctx.stroke();
+  }
+
+  // North Pole
+  const px = -h.radius - 30;
+  ctx.fillStyle = 'white';
+  ctx.beginPath(); ctx.arc(px, -1, 7, 0, Math.PI * 2); ctx.fill();
+  ctx.strokeStyle = '#dc2626';
+  ctx.lineWidth = 2;
+  ctx.beginPath(); ctx.arc(px, -1, 4, 0, Math.PI * 1.2); ctx.stroke();
+  ctx.fillStyle = '#fde047';
+  drawStar(ctx, px, -1, 5, 4, 2);
+
+  ctx.fillStyle = 'white';
+  ctx.font = 'bold 14px Inter';
+  ctx.textAlign = 'center';
+  ctx.shadowColor = 'black';
+  ctx.shadowBlur = 4;
+  ctx.fillText(h.name, 0, h.radius + 20);
+  ctx.shadowBlur = 0;
+  ctx.restore();
+};
+
+type ShipColors = { hullBase: string; hullHighlight: string; deck: string; trim: string; sail: string; sailStripe: string; mast: string };
+const SHIP_COLORS: Record<Ship['type'], ShipColors> = {
+  player: {
+      hullBase: '#7f1d1d', // Red 900
+      hullHighlight: '#dc2626', // Red 600
+      deck: '#d4a373',
+      trim: '#fbbf24', // Amber 400
+      sail: '#fefce8',
+      sailStripe: '#ef4444',
+      mast: '#f59e0b'
+  },
+  elite: {
+      hullBase: '#1e1b4b', // Indigo 950
+      hullHighlight: '#3b0764', // Purple 950
+      deck: '#44403c',
+      trim: '#eab308', // Gold
+      sail: '#7f1d1d', // Blood red
+      sailStripe: '#450a0a',
+      mast: '#1c1917'
+  },
+  pirate: {
+      hullBase: '#1a0f0a',
+      hullHighlight: '#4a3b32',
+      deck: '#5c4033',
+      trim: '#525252',
+      sail: '#171717',
+      sailStripe: '#333',
+      mast: '#261a15'
+  }
+};
+const SHIP_SCALE: Record<Ship['type'], number> = { player: 1.2, pirate: 1.0, elite: 1.3 };
+
+// Masts from stern to bow: [y, sail width]
+const MASTS = [[5, 28], [-18, 20]];
+const MAX_ROLL = 0.08;
+
+// Scorch marks left by hits: [x, y, size]. Battered hulls show all of them.
+const SCORCH_MARKS = [[-7, -10, 4], [6, 8, 5], [5, -16, 3], [-6, 18, 4]];
+
+// 0 = sound, 1 = scorched, 2 = battered
+const damageLevel = (ship: Ship) => ship.health > ship.maxHealth * 0.66 ? 0 : ship.health > ship.maxHealth * 0.33 ? 1 : 2;
+
+const traceHull = (ctx: CanvasRenderingContext2D) => {
+  ctx.beginPath();
+  ctx.moveTo(0, -32); // Bow tip (Visually Up, aligned to Physics Right via rotation)
+  // Starboard side
+  ctx.bezierCurveTo(16, -20, 18, 15, 14, 28);
+  ctx.lineTo(-14, 28); // Stern
+  // Port side
+  ctx.bezierCurveTo(-18, 15, -16, -20, 0, -32);
+  ctx.closePath();
+};
+
+const castHullShadow = (ctx: CanvasRenderingContext2D) => {
+  ctx.shadowColor = 'rgba(0,0,0,0.6)';
+  ctx.shadowBlur = 15;
+  ctx.shadowOffsetX = 10;
+  ctx.shadowOffsetY = 10;
+};
+
+const clearShadow = (ctx: CanvasRenderingContext2D) => {
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+  ctx.shadowOffsetX = 0;
+  ctx.shadowOffsetY = 0;
+};
+
+// Everything on a ship that holds still: hull, deck, cabin, guns, cargo and
+// the mast steps. heel (-1..1) darkens the side the ship is rolling towards.
+const drawHull = (ctx: CanvasRenderingContext2D, type: Ship['type'], heel: number, damage: number, presents: PresentKind[], shadow: boolean) => {
+  const colors = SHIP_COLORS[type];
+  const isPlayer = type === 'player';
+  const isElite = type === 'elite';
+
+  // --- Hull Construction ---
+  // 1. Hull Base
+  if (shadow) castHullShadow(ctx);
+  ctx.fillStyle = colors.hullBase;
+  traceHull(ctx);
+  ctx.fill();
+  clearShadow(ctx);
+
+  // 2. Hull Gradient
+  const hullGrad = ctx.createLinearGradient(-15, 0, 15, 0);
+  hullGrad.addColorStop(0, `rgba(0,0,0,${0.4 - heel * 0.2})`);
+  hullGrad.addColorStop(0.2, colors.hullHighlight);
+  hullGrad.addColorStop(0.5, colors.hullHighlight);
+  hullGrad.addColorStop(0.8, colors.hullHighlight);
+  hullGrad.addColorStop(1, `rgba(0,0,0,${0.4 + heel * 0.2})`);
+  ctx.fillStyle = hullGrad;
+  traceHull(ctx);
+  ctx.fill();
+
+  // 3. Deck
+  ctx.fillStyle = colors.deck;
+  ctx.beginPath();
+  ctx.moveTo(0, -28);
+  ctx.bezierCurveTo(12, -18, 14, 15, 11, 25);
+  ctx.lineTo(-11, 25);
+  ctx.bezierCurveTo(-14, 15, -12, -18, 0, -28);
+  ctx.fill();
+
+  // Wood plank lines
+  ctx.strokeStyle = 'rgba(0,0,0,0.1)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for(let i=-8; i<=8; i+=4) {
+      ctx.moveTo(i, -20);
+      ctx.lineTo(i, 22);
+  }
+  ctx.stroke();
+
+  // 4. Rear Cabin
+  ctx.fillStyle = colors.hullBase;
+  ctx.beginPath();
+  // @ts-ignore
+  if (ctx.roundRect) ctx.roundRect(-12, 12, 24, 14, 2);
+  else ctx.rect(-12, 12, 24, 14);
+  ctx.fill();
+  ctx.fillStyle = colors.hullHighlight;
+  ctx.beginPath();
+  // @ts-ignore
+  if (ctx.roundRect) ctx.roundRect(-11, 13, 22, 12, 1);
+  else ctx.rect(-11, 13, 22, 12);
+  ctx.fill();
+
+  // Battle damage
+  if (damage > 0) {
+      ctx.fillStyle = 'rgba(20,10,5,0.55)';
+      SCORCH_MARKS.slice(0, damage * 2).forEach(([x, y, size]) => {
+          ctx.beginPath(); ctx.ellipse(x, y, size, size * 0.7, x * 0.1, 0, Math.PI * 2); ctx.fill();
+      });
+  }
+  if (damage > 1) {
+      ctx.strokeStyle = 'rgba(0,0,0,0.5)';
+      ctx.lineWidth = 1;
+      ctx.beginPath(); ctx.moveTo(-9, -4); ctx.lineTo(-4, 0); ctx.lineTo(-6, 6); ctx.lineTo(-1, 10); ctx.stroke();
+  }
+
+  // 5. Trim
+  ctx.strokeStyle = colors.trim;
+  ctx.lineWidth = 2;
+  traceHull(ctx);
+  ctx.stroke();
+
+  // 6. Cannons
+  ctx.fillStyle = '#1c1917';
+  // Broadside ports
+  const cannonPositions = [-15, -5, 5];
+  cannonPositions.forEach(y => {
+      // Port
+      ctx.beginPath(); ctx.rect(-16, y, 4, 3); ctx.fill();
+      // Starboard
+      ctx.beginPath(); ctx.rect(12, y, 4, 3); ctx.fill();
+  });
+
+  // Pirate Bow Chasers (Elites rely on their broadsides)
+  if (!isPlayer && !isElite) {
+      ctx.fillStyle = '#333';
+      // Left Chaser
+      ctx.beginPath();
+      ctx.ellipse(-5, -28, 2, 5, 0, 0, Math.PI*2);
+      ctx.fill();
+      // Right Chaser
+      ctx.beginPath();
+      ctx.ellipse(5, -28, 2, 5, 0, 0, Math.PI*2);
+      ctx.fill();
+  }
+
+  // 7. Presents (Santa)
+  if (isPlayer) {
+      // One box per present still in the hold
+      presents.slice(0, PRESENT_SLOTS.length).forEach((kind, i) => {
+          const [px, py, size] = PRESENT_SLOTS[i];
+          drawPresent(ctx, px, py, size, size, PRESENT_KINDS[kind].color);
+      });
+  }
+
+  // 8. Mast steps and yards (the sails are drawn live on top)
+  MASTS.forEach(([y, width]) => {
+      ctx.fillStyle = 'rgba(0,0,0,0.3)';
+      ctx.beginPath(); ctx.ellipse(5, y + 5, 3, 3, 0, 0, Math.PI*2); ctx.fill();
+
+      ctx.fillStyle = colors.mast;
+      ctx.beginPath(); ctx.arc(0, y, 3, 0, Math.PI*2); ctx.fill();
+
+      ctx.strokeStyle = '#4b2e2e';
+      ctx.lineWidth = 2;
+      ctx.beginPath(); ctx.moveTo(-width/2, y + 2); ctx.lineTo(width/2, y + 2); ctx.stroke();
+  });
+
+  ctx.strokeStyle = colors.mast;
+  ctx.lineWidth = 2;
+  ctx.beginPath(); ctx.moveTo(0, -32); ctx.lineTo(0, -42); ctx.stroke();
+};
+
+// Sail gradients only depend on the ship type and mast, so each canvas keeps its own set
+const sailGradients = new WeakMap<CanvasRenderingContext2D, Map<string, CanvasGradient>>();
+const sailGradient = (ctx: CanvasRenderingContext2D, type: Ship['type'], y: number) => {
+  let gradients = sailGradients.get(ctx);
+  if (!gradients) sailGradients.set(ctx, gradients = new Map());
+  const key = `${type}|${y}`;
+  let gradient = gradients.get(key);
+  if (!gradient) {
+      gradient = ctx.createLinearGradient(0, y + 4, 0, y + 20);
+      gradient.addColorStop(0, SHIP_COLORS[type].sail);
+      gradient.addColorStop(1, '#e5e5e5');
+      gradients.set(key, gradient);
+  }
+  return gradient;
+};
+
+// The moving parts: sails flapping and billowing with speed, and the elite pennant
+const drawRigging = (ctx: CanvasRenderingContext2D, ship: Ship, type: Ship['type'], time: number) => {
+  const isPlayer = type === 'player';
+  const isElite = type === 'elite';
+  const sailWobble = Math.sin(time * 4) * 1.5;
+  // Billow effect from speed
+  const billow = Math.min(5, Math.hypot(ship.velocity.x, ship.velocity.y) * 2);
+
+  MASTS.forEach(([y, width]) => {
+      ctx.fillStyle = sailGradient(ctx, type, y);
+      ctx.beginPath();
+      ctx.moveTo(-width/2, y + 2);
+      ctx.lineTo(width/2, y + 2);
+      ctx.quadraticCurveTo(width/2 + 2, y + 15 + billow, width/2, y + 18 + sailWobble + billow);
+      ctx.quadraticCurveTo(0, y + 14 + sailWobble + billow, -width/2, y + 18 + sailWobble + billow);
+      ctx.quadraticCurveTo(-width/2 - 2, y + 15 + billow, -width/2, y + 2);
+      ctx.fill();
+
+      if (isPlayer) {
+           ctx.strokeStyle = 'rgba(220, 38, 38, 0.2)';
+           ctx.lineWidth = 4;
+           ctx.beginPath(); ctx.moveTo(0, y+2); ctx.lineTo(0, y+16+sailWobble+billow); ctx.stroke();
+      } else {
+          ctx.fillStyle = isElite ? 'rgba(250,204,21,0.9)' : 'rgba(255,255,255,0.8)';
+          ctx.beginPath(); ctx.arc(0, y + 10 + billow/2, 3, 0, Math.PI*2); ctx.fill();
+          ctx.fillRect(-2, y+12+billow/2, 4, 2);
+      }
+  });
+
+  // Elite pennant streaming from the mainmast
+  if (isElite) {
+      const flutter = Math.sin(time * 8 + ship.wobbleOffset) * 2;
+      ctx.fillStyle = '#dc2626';
+      ctx.beginPath();
+      ctx.moveTo(0, 5);
+      ctx.lineTo(-4, 18 + flutter);
+      ctx.lineTo(0, 14 + flutter);
+      ctx.lineTo(4, 18 + flutter);
+      ctx.closePath();
+      ctx.fill();
+      ctx.strokeStyle = SHIP_COLORS[type].trim;
+      ctx.lineWidth = 1;
+      ctx.stroke();
+  }
+};
+
+// --- Ship Sprites ---
+// Hulls are cached per type, damage level, heel and (for Santa) cargo. Roll is
+// quantized into ROLL_BUCKETS shades; the roll angle itself still turns the sprite.
+const SPRITE_RESOLUTION = 2; // Sprite pixels per art unit, enough for the largest ship scale
+const ROLL_BUCKETS = 5;
+const HULL_BOUNDS = { x: -24, y: -46, width: 48, height: 80 };
+const SHADOW_BOUNDS = { x: -40, y: -54, width: 80, height: 112 };
+const hullSprites = createSpriteCache(96);
+
+// The hull's blurred silhouette. Canvas shadows ignore the transform, so it is
+// cast from a hull far off the sprite and offset back onto it.
+let hullShadow: Sprite | null = null;
+const shadowSprite = () => hullShadow ??= renderSprite(SHADOW_BOUNDS, SPRITE_RESOLUTION, ctx => {
+  const away = 1000;
+  ctx.shadowColor = 'rgba(0,0,0,0.6)';
+  ctx.shadowBlur = 15 * SPRITE_RESOLUTION;
+  ctx.shadowOffsetX = away * SPRITE_RESOLUTION;
+  ctx.translate(-away, 0);
+  ctx.fillStyle = 'black';
+  traceHull(ctx);
+  ctx.fill();
+});
+
+export const drawRealisticShip = (ctx: CanvasRenderingContext2D, ship: Ship, type: Ship['type'], time: number, presents: PresentKind[] = [], quality: RenderQuality = DEFAULT_RENDER_QUALITY) => {
+  ctx.save();
+  ctx.translate(ship.x, ship.y);
+
+  // Slight roll simulation
+  const roll = Math.sin(time * 3 + ship.wobbleOffset) * MAX_ROLL;
+  const scale = SHIP_SCALE[type];
+  const damage = damageLevel(ship);
+  const sprites = RENDER_QUALITY[quality].sprites;
+
+  // CORRECTIVE ROTATION:
+  // Physics Rotation 0 = East (+X).
+  // Ship Art has Bow at -Y (Up).
+  // To align "Up" art with "East" physics, rotate +90 deg (PI/2).
+  const orient = () => {
+      ctx.rotate(ship.rotation + Math.PI / 2 + roll);
+      ctx.scale(scale, scale);
+  };
+
+  if (sprites) {
+      // Shadow falls the same way on screen whichever way the ship points
+      ctx.save();
+      ctx.translate(10, 10);
+      orient();
+      drawSprite(ctx, shadowSprite());
+      ctx.restore();
+
+      const bucket = Math.round(roll / MAX_ROLL * (ROLL_BUCKETS - 1) / 2);
+      const heel = bucket / ((ROLL_BUCKETS - 1) / 2);
+      const cargo = type === 'player' ? presents.slice(0, PRESENT_SLOTS.length) : [];
+      orient();
+      drawSprite(ctx, cachedSprite(hullSprites, `${type}|${damage}|${bucket}|${cargo.join()}`, () =>
+          renderSprite(HULL_BOUNDS, SPRITE_RESOLUTION, sprite => drawHull(sprite, type, heel, damage, cargo, false))));
+  } else {
+      orient();
+      drawHull(ctx, type, roll / MAX_ROLL, damage, presents, true);
+  }
+
+  drawRigging(ctx, ship, type, time);
+  ctx.restore();
+};
+
+// --- Islands ---
+// Each variant has its own shoals, beach and land; the art is laid out
+// along the charted coast (see islands.ts). Grass turns festive green on
+// delivery and a string of lights goes up around the shore. The name,
+// wishlist and pier berth are drawn live on top.
+interface IslandPalette {
+  shoal: string; // rgb triple, faded out across the shallows
+  beach: string;
+  land: string | null; // null for the island's own grass colour
+}
+
+const ISLAND_PALETTES: Record<IslandVariant, IslandPalette> = {
+  atoll: { shoal: '94,234,212', beach: '#fde047', land: null },
+  arctic: { shoal: '186,230,253', beach: '#cbd5e1', land: '#f8fafc' },
+  volcanic: { shoal: '71,85,105', beach: '#52525b', land: '#292524' },
+  village: { shoal: '94,234,212', beach: '#fcd34d', land: null }
+};
+
+const FAIRY_LIGHTS = ['#ef4444', '#fde047', '#4ade80', '#60a5fa'];
+const TAU = Math.PI * 2;
+
+// Farthest the island's art reaches from its centre, pier included
+const islandReach = (island: Island) => island.radius + SHALLOWS_WIDTH + (island.dock === null ? 0 : DOCK_LENGTH + DOCK_BERTH);
+
+// Point `scale` of the way out to the coast along a bearing, plus `offset`
+const alongCoast = (island: Island, bearing: number, scale: number, offset = 0) => {
+  const d = coastRadius(island, bearing) * scale + offset;
+  return { x: Math.cos(bearing) * d, y: Math.sin(bearing) * d };
+};
+
+// Traces the coast scaled towards the centre and pushed out by `offset`
+const traceCoast = (ctx: CanvasRenderingContext2D, island: Island, scale = 1, offset = 0, dx = 0, dy = 0) => {
+  ctx.beginPath();
+  island.coast.forEach((r, k) => {
+      const bearing = (k / island.coast.length) * TAU;
+      const d = r * scale + offset;
+      const x = dx + Math.cos(bearing) * d;
+      const y = dy + Math.sin(bearing) * d;
+      if (k === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+  });
+  ctx.closePath();
+};
+
+const drawPalms = (ctx: CanvasRenderingContext2D, island: Island, count: number, scale: number) => {
+  for (let i = 0; i < count; i++) {
+      const { x, y } = alongCoast(island, (i / count) * TAU + island.id, scale);
+      ctx.fillStyle = '#713f12';
+      ctx.beginPath(); ctx.arc(x, y, 4, 0, TAU); ctx.fill();
+      ctx.fillStyle = '#14532d';
+      drawStar(ctx, x, y, 5, 12, 5);
+  }
+};
+
+// Coral ring round a turquoise lagoon, palms along the reef
+const drawAtoll = (ctx: CanvasRenderingContext2D, island: Island) => {
+  ctx.fillStyle = '#2dd4bf';
+  traceCoast(ctx, island, 0.42); ctx.fill();
+  ctx.fillStyle = 'rgba(255,255,255,0.25)';
+  traceCoast(ctx, island, 0.3); ctx.fill();
+  drawPalms(ctx, island, 7, 0.6);
+};
+
+// Drifting floes in the shallows and snowy pines inland
+const drawArctic = (ctx: CanvasRenderingContext2D, island: Island) => {
+  ctx.fillStyle = 'rgba(241,245,249,0.85)';
+  for (let i = 0; i < 4; i++) {
+      const bearing = (i / 4) * TAU + island.id * 1.7;
+      const { x, y } = alongCoast(island, bearing, 1, SHALLOWS_WIDTH * 0.45);
+      const size = 6 + (i % 3) * 3;
+      ctx.beginPath();
+      ctx.moveTo(x - size, y - size * 0.4);
+      ctx.lineTo(x + size * 0.3, y - size * 0.8);
+      ctx.lineTo(x + size, y + size * 0.2);
+      ctx.lineTo(x - size * 0.2, y + size * 0.7);
+      ctx.closePath();
+      ctx.fill();
+  }
+
+  for (let i = 0; i < 6; i++) {
+      const { x, y } = alongCoast(island, (i / 6) * TAU + island.id, i % 2 ? 0.3 : 0.55);
+      ctx.fillStyle = '#14532d';
+      ctx.beginPath(); ctx.moveTo(x, y - 14); ctx.lineTo(x + 9, y + 7); ctx.lineTo(x - 9, y + 7); ctx.closePath(); ctx.fill();
+      ctx.fillStyle = 'white';
+      ctx.beginPath(); ctx.moveTo(x, y - 14); ctx.lineTo(x + 4, y - 5); ctx.lineTo(x - 4, y - 5); ctx.closePath(); ctx.fill();
+  }
+};
+
+// Ash cone with lava running down from a glowing crater
+const drawVolcanic = (ctx: CanvasRenderingContext2D, island: Island) => {
+  const peak = Math.min(...island.coast) * 0.6;
+  const cone = ctx.createRadialGradient(0, 0, peak * 0.2, 0, 0, peak);
+  cone.addColorStop(0, '#78350f');
+  cone.addColorStop(1, 'rgba(68,64,60,0)');
+  ctx.fillStyle = cone;
+  ctx.beginPath(); ctx.arc(0, 0, peak, 0, TAU); ctx.fill();
+
+  ctx.strokeStyle = 'rgba(249,115,22,0.7)';
+  ctx.lineWidth = 3;
+  ctx.lineCap = 'round';
+  for (let i = 0; i < 3; i++) {
+      const bearing = (i / 3) * TAU + island.id;
+      const end = alongCoast(island, bearing + 0.2, 0.7);
+      ctx.beginPath();
+      ctx.moveTo(Math.cos(bearing) * peak * 0.25, Math.sin(bearing) * peak * 0.25);
+      ctx.quadraticCurveTo(Math.cos(bearing) * peak * 0.6, Math.sin(bearing) * peak * 0.6, end.x, end.y);
+      ctx.stroke();
+  }
+  ctx.lineCap = 'butt';
+
+  const crater = ctx.createRadialGradient(0, 0, 0, 0, 0, peak * 0.3);
+  crater.addColorStop(0, '#fde047');
+  crater.addColorStop(0.5, '#f97316');
+  crater.addColorStop(1, '#7f1d1d');
+  ctx.fillStyle = crater;
+  ctx.beginPath(); ctx.arc(0, 0, peak * 0.3, 0, TAU); ctx.fill();
+};
+
+// Huts inland and a pier out to where Santa ties up
+const drawVillage = (ctx: CanvasRenderingContext2D, island: Island) => {
+  drawPalms(ctx, island, 3, 0.65);
+  for (let i = 0; i < 4; i++) {
+      const { x, y } = alongCoast(island, (i / 4) * TAU + island.id + 0.8, 0.4);
+      ctx.fillStyle = '#fef3c7';
+      ctx.fillRect(x - 7, y - 5, 14, 11);
+      ctx.fillStyle = '#b91c1c';
+      ctx.beginPath(); ctx.moveTo(x - 10, y - 4); ctx.lineTo(x, y - 13); ctx.lineTo(x + 10, y - 4); ctx.closePath(); ctx.fill();
+  }
+
+  if (island.dock === null) return;
+  const shore = coastRadius(island, island.dock);
+  ctx.save();
+  ctx.rotate(island.dock);
+  ctx.fillStyle = 'rgba(0,0,0,0.3)';
+  ctx.fillRect(shore - 16, -4, DOCK_LENGTH + 16, 16);
+  ctx.fillStyle = '#78350f';
+  ctx.fillRect(shore - 20, -8, DOCK_LENGTH + 16, 16);
+  ctx.strokeStyle = '#451a03';
+  ctx.lineWidth = 1;
+  for (let x = shore - 20; x < shore + DOCK_LENGTH - 4; x += 8) {
+      ctx.beginPath(); ctx.moveTo(x, -8); ctx.lineTo(x, 8); ctx.stroke();
+  }
+  ctx.restore();
+};
+
+const VARIANT_ART: Record<IslandVariant, (ctx: CanvasRenderingContext2D, island: Island) => void> = {
+  atoll: drawAtoll,
+  arctic: drawArctic,
+  volcanic: drawVolcanic,
+  village: drawVillage
+};
+
+const drawIsland = (ctx: CanvasRenderingContext2D, island: Island) => {
+  const palette = ISLAND_PALETTES[island.variant];
+  const shoal = ctx.createRadialGradient(0, 0, Math.min(...island.coast), 0, 0, island.radius + SHALLOWS_WIDTH);
+  shoal.addColorStop(0, `rgba(${palette.shoal},0.45)`);
+  shoal.addColorStop(1, `rgba(${palette.shoal},0)`);
+  ctx.fillStyle = shoal;
+  traceCoast(ctx, island, 1, SHALLOWS_WIDTH); ctx.fill();
+
+  ctx.fillStyle = 'rgba(0,0,0,0.3)';
+  traceCoast(ctx, island, 1, 0, 5, 5); ctx.fill();
+
+  ctx.fillStyle = palette.beach;
+  traceCoast(ctx, island); ctx.fill();
+
+  ctx.fillStyle = palette.land ?? (island.delivered ? '#4ade80' : island.color);
+  traceCoast(ctx, island, 0.78); ctx.fill();
+
+  VARIANT_ART[island.variant](ctx, island);
+
+  if (island.delivered) {
+      const count = 24;
+      for (let i = 0; i < count; i++) {
+          const { x, y } = alongCoast(island, (i / count) * TAU, 0.88);
+          ctx.fillStyle = FAIRY_LIGHTS[i % FAIRY_LIGHTS.length];
+          ctx.beginPath(); ctx.arc(x, y, 2.5, 0, TAU); ctx.fill();
+      }
+  }
+};
+
+// One sprite per island, redrawn when it lights up on delivery. Keyed by
+// the island itself, so a reloaded or rewound world charts fresh ones.
+const islandSprites = new WeakMap<Island, { delivered: boolean; sprite: Sprite }>();
+const islandSprite = (island: Island) => {
+  let entry = islandSprites.get(island);
+  if (!entry || entry.delivered !== island.delivered) {
+      const reach = islandReach(island);
+      const bounds = { x: -reach, y: -reach, width: reach * 2, height: reach * 2 };
+      entry = { delivered: island.delivered, sprite: renderSprite(bounds, 1, ctx => drawIsland(ctx, island)) };
+      islandSprites.set(island, entry);
+  }
+  return entry.sprite;
+};
+
+// Dashed ring where a village's pier takes deliveries, lit while Santa is berthed
+const drawBerth = (ctx: CanvasRenderingContext2D, island: Island, player: Entity, time: number) => {
+  const berth = dockBerth(island);
+  if (!berth) return;
+  const berthed = Math.hypot(player.x - berth.x, player.y - berth.y) < DOCK_BERTH;
+  ctx.strokeStyle = berthed ? 'rgba(74,222,128,0.8)' : 'rgba(255,255,255,0.35)';
+  ctx.lineWidth = 2;
+  ctx.setLineDash([8, 6]);
+  ctx.lineDashOffset = -time * 20;
+  ctx.beginPath(); ctx.arc(berth.x - island.x, berth.y - island.y, DOCK_BERTH, 0, TAU); ctx.stroke();
+  ctx.setLineDash([]);
+};
+
+// Draws particles in batches, one path and fill per colour and opacity step
+// rather than one per particle. Opacity is rounded to PARTICLE_ALPHA_STEPS levels.
+const PARTICLE_ALPHA_STEPS = 10;
+const drawParticles = (ctx: CanvasRenderingContext2D, particles: Particle[], alphaOf: (p: Particle) => number) => {
+  const batches = new Map<string, Particle[]>();
+  for (const p of particles) {
+      const level = Math.round(Math.max(0, Math.min(1, alphaOf(p))) * PARTICLE_ALPHA_STEPS);
+      if (level === 0) continue;
+      const key = `${level}|${p.color}`;
+      const batch = batches.get(key);
+      if (batch) batch.push(p);
+      else batches.set(key, [p]);
+  }
+  batches.forEach((batch, key) => {
+      const bar = key.indexOf('|');
+      ctx.globalAlpha = Number(key.slice(0, bar)) / PARTICLE_ALPHA_STEPS;
+      ctx.fillStyle = key.slice(bar + 1);
+      ctx.beginPath();
+      for (const p of batch) {
+          ctx.moveTo(p.x + p.size, p.y);
+          ctx.arc(p.x, p.y, p.size, 0, Math.PI * 2);
+      }
+      ctx.fill();
+  });
+  ctx.globalAlpha = 1;
+};
+
+// --- World Renderer ---
+// Draws one frame of the world, blended between the last two simulation ticks.
+// Read-only: the renderer never mutates the world.
+export const renderWorld = (ctx: CanvasRenderingContext2D, s: WorldState, width: number, height: number, view: RenderView, quality: RenderQuality = DEFAULT_RENDER_QUALITY) => {
+  const cam = interpolateCamera(s, view);
+  const time = interpolateTime(s, view);
+  const player = interpolateEntity(s.player, view);
+
+  // Apply Shake
+  const shakeX = (Math.random() - 0.5) * cam.shake;
+  const shakeY = (Math.random() - 0.5) * cam.shake;
+
+  // Only what the grid files near the view is considered for drawing; ships and
+  // balls are drawn blended up to a tick away from where they were filed
+  const index = spatialIndex(s);
+  const nearView = (grid: SpatialGrid, pad: number) => queryRect(grid, cam.x - pad, cam.y - pad, cam.x + width + pad, cam.y + height + pad);
+
+  // Particles are sorted into their layers in one pass, dropping those off screen
+  const glints: Particle[] = [];
+  const lowParticles: Particle[] = [];
+  const highParticles: Particle[] = [];
+  for (const p of s.particles.live) {
+      if (p.x + p.size < cam.x || p.x - p.size > cam.x + width || p.y + p.size < cam.y || p.y - p.size > cam.y + height) continue;
+      if (p.type === 'glint') glints.push(p);
+      else if (p.type === 'water') lowParticles.push(p);
+      else highParticles.push(p);
+  }
+
+  ctx.clearRect(0, 0, width, height);
+  ctx.save();
+  ctx.translate(-cam.x + shakeX, -cam.y + shakeY);
+
+  // --- 1. OCEAN ---
+  const gradient = ctx.createLinearGradient(cam.x, cam.y, cam.x + width, cam.y + height);
+  gradient.addColorStop(0, '#0f172a');
+  gradient.addColorStop(1, '#1e3a8a');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(cam.x, cam.y, width, height);
+
+  // Grid
+  ctx.strokeStyle = 'rgba(255,255,255,0.03)';
+  ctx.lineWidth = 2;
+  const gridSize = 150;
+  const startX = Math.floor(cam.x / gridSize) * gridSize;
+  const startY = Math.floor(cam.y / gridSize) * gridSize;
+  ctx.beginPath();
+  for (let x = startX; x < cam.x + width + gridSize; x += gridSize) {
+      ctx.moveTo(x, cam.y);
+      ctx.lineTo(x, cam.y + height);
+  }
+  for (let y = startY; y < cam.y + height + gridSize; y += gridSize) {
+      ctx.moveTo(cam.x, y);
+      ctx.lineTo(cam.x + width, y);
+  }
+  ctx.stroke();
+
+  // Glints
+  drawParticles(ctx, glints, p => 0.3 + Math.sin(time * 5 + p.id * 10) * 0.2);
+
+  // --- 2. ISLANDS ---
+  nearView(index.islands, SHALLOWS_WIDTH + DOCK_LENGTH + DOCK_BERTH).forEach(i => {
+      const island = s.islands[i];
+      const reach = islandReach(island);
+      if (island.x + reach < cam.x || island.x - reach > cam.x + width ||
+          island.y + reach < cam.y || island.y - reach > cam.y + height) return;
+
+      ctx.save();
+      ctx.translate(island.x, island.y);
+      if (RENDER_QUALITY[quality].sprites) drawSprite(ctx, islandSprite(island));
+      else drawIsland(ctx, island);
+      if (!island.delivered) drawBerth(ctx, island, player, time);
+
+      ctx.fillStyle = 'white';
+      ctx.font = 'bold 14px Inter';
+      ctx.textAlign = 'center';
+      ctx.shadowColor = 'black';
+      ctx.shadowBlur = 4;
+      ctx.fillText(island.name, 0, island.radius + 20);
+      ctx.shadowBlur = 0;
+      // Wishlist, once Santa has sailed close enough to read it
+      if (island.wishKnown && !island.delivered) {
+          const size = 14;
+          const gap = 6;
+          const left = -(island.wish.length * (size + gap) - gap) / 2;
+          ctx.fillStyle = 'rgba(0,0,0,0.5)';
+          ctx.fillRect(left - 6, island.radius + 30, island.wish.length * (size + gap) - gap + 12, size + 12);
+          island.wish.forEach((kind, i) => drawPresent(ctx, left + i * (size + gap), island.radius + 36, size, size, PRESENT_KINDS[kind].color));
+      }
+      if (island.delivered) {
+          ctx.font = '30px Inter';
+          ctx.fillText('🎁', 0, 0);
+      }
+      ctx.restore();
+  });
+
+  // --- 2b. HARBOR ---
+  if (isInView({ ...s.harbor, radius: s.harbor.radius + 60 }, cam, width, height)) drawHarbor(ctx, s, time);
+
+  // --- 3. PARTICLES (Low) ---
+  drawParticles(ctx, lowParticles, p => p.life);
+
+  // --- 4. SHIPS ---
+  nearView(index.enemies, SPATIAL_SLACK).forEach(i => {
+      const e = s.enemies[i];
+      if (!e.active) return;
+      const enemy = interpolateEntity(e, view);
+      if (!isInView(enemy, cam, width, height)) return;
+      drawRealisticShip(ctx, enemy, enemy.type, time, [], quality);
+      // Elites are worth tracking: show their hull
+      if (enemy.type === 'elite') {
+          ctx.fillStyle = '#111';
+          ctx.fillRect(enemy.x - 24, enemy.y - 58, 48, 6);
+          ctx.fillStyle = '#eab308';
+          ctx.fillRect(enemy.x - 23, enemy.y - 57, 46 * Math.max(0, enemy.health / enemy.maxHealth), 4);
+      }
+  });
+
+  if (player.active) {
+      drawRealisticShip(ctx, player, 'player', time, s.cargo.hold, quality);
+      // Health
+      ctx.fillStyle = '#111';
+      ctx.fillRect(player.x - 20, player.y - 50, 40, 6);
+      ctx.fillStyle = player.health > 30 ? '#22c55e' : '#ef4444';
+      ctx.fillRect(player.x - 19, player.y - 49, 38 * (player.health / player.maxHealth), 4);
+  }
+
+  // --- 5. PROJECTILES ---
+  nearView(index.projectiles, SPATIAL_SLACK).forEach(i => {
+      const proj = s.projectiles[i];
+      const p = interpolateEntity(proj, view);
+      const size = WEAPONS[proj.weapon].size;
+      ctx.shadowColor = 'black';
+      ctx.shadowBlur = 5;
+      if (proj.weapon === 'chain') {
+          // Two balls joined by a spinning chain
+          const spin = time * 40 + proj.id;
+          const dx = Math.cos(spin) * 6, dy = Math.sin(spin) * 6;
+          ctx.strokeStyle = '#71717a';
+          ctx.lineWidth = 1.5;
+          ctx.beginPath(); ctx.moveTo(p.x - dx, p.y - dy); ctx.lineTo(p.x + dx, p.y + dy); ctx.stroke();
+          ctx.fillStyle = '#27272a';
+          ctx.beginPath(); ctx.arc(p.x - dx, p.y - dy, 2.5, 0, Math.PI * 2); ctx.fill();
+          ctx.beginPath(); ctx.arc(p.x + dx, p.y + dy, 2.5, 0, Math.PI * 2); ctx.fill();
+      } else if (proj.weapon === 'coal') {
+          // Glowing lump of coal
+          ctx.shadowColor = '#f97316';
+          ctx.shadowBlur = 10;
+          ctx.fillStyle = '#18181b';
+          ctx.beginPath();
+          for (let i = 0; i < 6; i++) {
+              const a = proj.id + i * Math.PI / 3;
+              const r = size * (i % 2 ? 0.8 : 1.1);
+              ctx.lineTo(p.x + Math.cos(a) * r, p.y + Math.sin(a) * r);
+          }
+          ctx.closePath(); ctx.fill();
+          ctx.shadowBlur = 0;
+          ctx.fillStyle = '#ea580c';
+          ctx.beginPath(); ctx.arc(p.x, p.y, 1.5, 0, Math.PI * 2); ctx.fill();
+      } else {
+          ctx.fillStyle = '#09090b';
+          ctx.beginPath(); ctx.arc(p.x, p.y, size, 0, Math.PI * 2); ctx.fill();
+          if (proj.weapon === 'round') {
+              ctx.shadowBlur = 0;
+              ctx.fillStyle = '#525252';
+              ctx.beginPath(); ctx.arc(p.x - 1.5, p.y - 1.5, 1.5, 0, Math.PI * 2); ctx.fill();
+          }
+      }
+      ctx.shadowBlur = 0;
+  });
+
+  // --- 6. PARTICLES (High) ---
+  drawParticles(ctx, highParticles, p => p.life);
+
+  ctx.restore();
+
+  // --- 7. RUMOR POINTERS (Screen space) ---
+  // Rumored islands off screen get an arrow on the edge of the view
+  s.islands.forEach(island => {
+      if (!island.rumored || island.delivered || isInView(island, cam, width, height)) return;
+      const angle = Math.atan2(island.y - (cam.y + height / 2), island.x - (cam.x + width / 2));
+      const reach = Math.min((width / 2 - 30) / Math.abs(Math.cos(angle) || 1e-6), (height / 2 - 30) / Math.abs(Math.sin(angle) || 1e-6));
+      ctx.save();
+      ctx.translate(width / 2 + Math.cos(angle) * reach, height / 2 + Math.sin(angle) * reach);
+      ctx.rotate(angle);
+      ctx.fillStyle = '#7dd3fc';
+      ctx.beginPath(); ctx.moveTo(14, 0); ctx.lineTo(-8, -9); ctx.lineTo(-8, 9); ctx.closePath(); ctx.fill();
+      ctx.rotate(-angle);
+      ctx.fillStyle = 'white';
+      ctx.font = 'bold 11px Inter';
+      ctx.textAlign = 'center';
+      ctx.fillText(island.name, 0, 24);
+      ctx.restore();
+  });
+};
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, it, expect } from 'vitest';
+import { WorldState, StepInput } from './types';
+import { SIM_DT } from './constants';
+import { createWorld, step } from './simulation';
+import { createMockNarrator } from '../services/mockNarrator';
+import {
+  createRecorder, recordTick, finishRecording, serializeReplay, parseReplay,
+  createPlayback, advancePlayback, seekPlayback, isPlaybackFinished, REPLAY_VERSION
+} from './replay';
+
+// A voyage is its seed plus its input, so replaying the recording must land
+// on exactly the world that was played, however playback gets there.
+
+const SEED = 'ABCDEF';
+const TICKS = 6000;
+
+// Sails, turns, trims and fires on a fixed pattern
+const scriptedInput = (i: number): StepInput => ({
+  keys: {
+    w: i % 300 < 200, a: i % 90 < 20, s: false, d: i % 500 < 40,
+    q: i % 250 < 10, e: i % 250 > 240, r: i % 400 === 0, space: i % 60 === 0
+  },
+  frozen: false
+});
+
+// The parts of the world a replay has to reproduce (the rest is cosmetic or derived)
+const fingerprint = (s: WorldState) => JSON.stringify({
+  player: s.player, enemies: s.enemies, projectiles: s.projectiles, islands: s.islands,
+  score: s.score, cargo: s.cargo, stats: s.stats, rngState: s.rngState, frameCount: s.frameCount
+});
+
+const playVoyage = () => {
+  const world = createWorld(SEED, 'normal');
+  const recorder = createRecorder(world.seed, 'normal');
+  for (let i = 0; i < TICKS && world.player.active; i++) {
+    const input = scriptedInput(i);
+    recordTick(recorder, input);
+    step(world, input, SIM_DT);
+  }
+  return { world, replay: finishRecording(recorder) };
+};
+
+describe('replays', () => {
+  const { world, replay } = playVoyage();
+
+  it('plays the same voyage twice from the same seed and input', () => {
+    expect(fingerprint(playVoyage().world)).toBe(fingerprint(world));
+  });
+
+  it('survives a round trip through the file format', () => {
+    const parsed = parseReplay(serializeReplay(replay));
+    expect(parsed).toEqual(replay);
+
+    const playback = createPlayback(parsed);
+    while (playback.tick < parsed.ticks) advancePlayback(playback);
+    expect(fingerprint(playback.world)).toBe(fingerprint(world));
+  });
+
+  it('lands on the same world after seeking back and forth', () => {
+    const playback = createPlayback(parseReplay(serializeReplay(replay)));
+    seekPlayback(playback, replay.ticks);
+    seekPlayback(playback, 700);
+    seekPlayback(playback, replay.ticks);
+    expect(fingerprint(playback.world)).toBe(fingerprint(world));
+  });
+
+  it('plays a recording taken from the victory screen', () => {
+    // The loop keeps recording frozen ticks while the victory screen is up
+    const played = createWorld(SEED, 'normal');
+    const recorder = createRecorder(played.seed, 'normal');
+    for (let i = 0; i < 900; i++) {
+      const input = { ...scriptedInput(i), frozen: i >= 600 };
+      recordTick(recorder, input);
+      step(played, input, SIM_DT);
+    }
+
+    const playback = createPlayback(finishRecording(recorder));
+    advancePlayback(playback);
+    expect(playback.tick).toBe(1);
+    expect(playback.world.frameCount).toBeGreaterThan(0);
+    while (!isPlaybackFinished(playback)) advancePlayback(playback);
+    expect(fingerprint(playback.world)).toBe(fingerprint(played));
+  });
+
+  it('rejects recordings from other rule sets', () => {
+    expect(() => parseReplay(serializeReplay({ ...replay, version: REPLAY_VERSION - 1 }))).toThrow(/Unsupported replay version/);
+  });
+
+  it('rejects input too long to be a voyage without expanding it', () => {
+    const runs = [0, 1e9];
+    expect(() => parseReplay(serializeReplay({ ...replay, runs, ticks: 1e9 }))).toThrow(/too long/);
+  });
+
+  it('rejects input that disagrees with its length', () => {
+    expect(() => parseReplay(serializeReplay({ ...replay, ticks: replay.ticks + 1 }))).toThrow(/does not match/);
+  });
+
+  it('replays the narrator\'s effects at the tick they arrived', async () => {
+    const narrator = createMockNarrator([{ narration: 'A pouch of doubloons!', effects: [{ kind: 'gold', amount: 120 }] }]);
+    const story = await narrator.narrate({ event: 'Delivered Present', context: 'Test', mood: 'cheerful', rumorTargets: [] });
+
+    const played = createWorld(SEED, 'normal');
+    const recorder = createRecorder(played.seed, 'normal');
+    for (let i = 0; i < 600; i++) {
+      const input = { ...scriptedInput(i), effects: i === 300 ? story.effects : undefined };
+      recordTick(recorder, input);
+      step(played, input, SIM_DT);
+    }
+
+    const playback = createPlayback(parseReplay(serializeReplay(finishRecording(recorder))));
+    seekPlayback(playback, 600);
+    expect(playback.replay.story).toEqual([{ tick: 300, effects: story.effects }]);
+    expect(fingerprint(playback.world)).toBe(fingerprint(played));
+  });
+
+  it('rejects a recorded story the narrator could not have told', () => {
+    const story = [{ tick: 0, effects: [{ kind: 'rumor' as const, island: 'Atlantis' }] }];
+    expect(() => parseReplay(serializeReplay({ ...replay, story }))).toThrow(/unknown island/);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, StepInput, StoryEffect, Voyage } from './types';
+import { createWorld, step } from './simulation';
+import { SIM_DT, SIM_HZ, DIFFICULTY_PRESETS, DifficultyId } from './constants';
+import { validateEffects } from './effects';
+import { openVoyage, validateVoyage } from './voyage';
+
+// Because the simulation is seeded and fixed-step, a voyage is fully described
+// by its seed plus the input fed to each tick. A replay stores exactly that,
+// along with the narrator's effects, which came from outside the simulation.
+
+export const REPLAY_VERSION = 12; // Bump whenever simulation rules change: old input no longer reproduces the voyage
+const KEYFRAME_INTERVAL = 300; // Ticks between cached world snapshots (5s)
+const MAX_TICKS = SIM_HZ * 60 * 60 * 6; // Six hours; anything longer is a corrupt file, not a voyage
+
+export interface Replay {
+  version: number;
+  seed: string;
+  difficulty: DifficultyId;
+  voyage: Voyage;
+  ticks: number;
+  runs: number[]; // Run-length encoded input masks: [mask, count, mask, count, ...]
+  story: StoryBeat[];
+}
+
+export interface StoryBeat {
+  tick: number;
+  effects: StoryEffect[];
+}
+
+export interface Recorder {
+  seed: string;
+  difficulty: DifficultyId;
+  voyage: Voyage;
+  masks: number[];
+  story: StoryBeat[];
+}
+
+export interface Playback {
+  replay: Replay;
+  masks: number[];
+  story: Map<number, StoryEffect[]>;
+  world: WorldState;
+  tick: number;
+  paused: boolean;
+  speed: number;
+  keyframes: Map<number, WorldState>;
+}
+
+// --- Input Encoding ---
+const INPUT_BITS = { w: 1, a: 2, s: 4, d: 8, space: 16, q: 64, e: 128, r: 256 } as const;
+const FROZEN_BIT = 32;
+
+export const encodeInput = (input: StepInput) => {
+  let mask = input.frozen ? FROZEN_BIT : 0;
+  if (input.keys.w) mask |= INPUT_BITS.w;
+  if (input.keys.a) mask |= INPUT_BITS.a;
+  if (input.keys.s) mask |= INPUT_BITS.s;
+  if (input.keys.d) mask |= INPUT_BITS.d;
+  if (input.keys.space) mask |= INPUT_BITS.space;
+  if (input.keys.q) mask |= INPUT_BITS.q;
+  if (input.keys.e) mask |= INPUT_BITS.e;
+  if (input.keys.r) mask |= INPUT_BITS.r;
+  return mask;
+};
+
+export const decodeInput = (mask: number): StepInput => ({
+  keys: {
+    w: (mask & INPUT_BITS.w) !== 0,
+    a: (mask & INPUT_BITS.a) !== 0,
+    s: (mask & INPUT_BITS.s) !== 0,
+    d: (mask & INPUT_BITS.d) !== 0,
+    q: (mask & INPUT_BITS.q) !== 0,
+    e: (mask & INPUT_BITS.e) !== 0,
+    r: (mask & INPUT_BITS.r) !== 0,
+    space: (mask & INPUT_BITS.space) !== 0
+  },
+  frozen: (mask & FROZEN_BIT) !== 0
+});
+
+// --- Recording ---
+export const createRecorder = (seed: string, difficulty: DifficultyId, voyage: Voyage = openVoyage()): Recorder =>
+  ({ seed, difficulty, voyage, masks: [], story: [] });
+
+export const recordTick = (rec: Recorder, input: StepInput) => {
+  if (input.effects?.length) rec.story.push({ tick: rec.masks.length, effects: input.effects });
+  rec.masks.push(encodeInput(input));
+};
+
+export const finishRecording = (rec: Recorder): Replay => {
+  const runs: number[] = [];
+  for (const mask of rec.masks) {
+    const last = runs.length - 2;
+    if (last >= 0 && runs[last] === mask) runs[last + 1]++;
+    else runs.push(mask, 1);
+  }
+  return { version: REPLAY_VERSION, seed: rec.seed, difficulty: rec.difficulty, voyage: rec.voyage, ticks: rec.masks.length, runs, story: rec.story };
+};
+
+// Picks a recording back up, e.g. from a saved game, so the replay still covers the whole voyage
+export const resumeRecording = (replay: Replay): Recorder =>
+  ({ seed: replay.seed, difficulty: replay.difficulty, voyage: replay.voyage, masks: expandRuns(replay.runs), story: replay.story });
+
+// --- File Format ---
+export const serializeReplay = (replay: Replay) => JSON.stringify(replay);
+
+export const parseReplay = (text: string): Replay => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Replay file is not valid JSON.");
+  }
+  if (!data || data.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version: ${data?.version}`);
+  if (typeof data.seed !== 'string' || !data.seed) throw new Error("Replay is missing its voyage code.");
+  if (!Object.prototype.hasOwnProperty.call(DIFFICULTY_PRESETS, data.difficulty)) throw new Error(`Unknown replay difficulty: ${data.difficulty}`);
+  const voyage = validateVoyage(data.voyage);
+  if (!Array.isArray(data.runs) || data.runs.length % 2 !== 0 ||
+      !data.runs.every((n: unknown) => Number.isInteger(n) && (n as number) >= 0)) {
+    throw new Error("Replay input is corrupted.");
+  }
+  // Counted rather than expanded, so a corrupt run length can't exhaust memory
+  let ticks = 0;
+  for (let i = 1; i < data.runs.length; i += 2) ticks += data.runs[i];
+  if (ticks > MAX_TICKS) throw new Error("Replay is too long.");
+  if (ticks !== data.ticks) throw new Error("Replay length does not match its input.");
+  if (!Array.isArray(data.story)) throw new Error("Replay is missing its story.");
+  const islandNames = createWorld(data.seed, data.difficulty, voyage).islands.map(i => i.name);
+  const story: StoryBeat[] = data.story.map((beat: any) => {
+    if (!beat || !Number.isInteger(beat.tick) || beat.tick < 0 || beat.tick >= ticks) throw new Error("Replay story is corrupted.");
+    return { tick: beat.tick, effects: validateEffects(beat.effects, islandNames) };
+  });
+  return { version: data.version, seed: data.seed, difficulty: data.difficulty, voyage, ticks, runs: data.runs, story };
+};
+
+const expandRuns = (runs: number[]) => {
+  const masks: number[] = [];
+  for (let i = 0; i < runs.length; i += 2) {
+    for (let n = 0; n < runs[i + 1]; n++) masks.push(runs[i]);
+  }
+  return masks;
+};
+
+// --- Playback ---
+export const createPlayback = (replay: Replay): Playback => {
+  const world = createWorld(replay.seed, replay.difficulty, replay.voyage);
+  return {
+    replay,
+    masks: expandRuns(replay.runs),
+    story: new Map(replay.story.map(beat => [beat.tick, beat.effects])),
+    world,
+    tick: 0,
+    paused: false,
+    speed: 1,
+    keyframes: new Map([[0, structuredClone(world)]])
+  };
+};
+
+export const isPlaybackFinished = (pb: Playback) => pb.tick >= pb.replay.ticks;
+
+// Feeds the recorded input for the current tick into the world.
+export const advancePlayback = (pb: Playback) => {
+  if (isPlaybackFinished(pb)) return [];
+  const input = decodeInput(pb.masks[pb.tick]);
+  input.effects = pb.story.get(pb.tick);
+  const events = step(pb.world, input, SIM_DT);
+  pb.tick++;
+  if (pb.tick % KEYFRAME_INTERVAL === 0 && !pb.keyframes.has(pb.tick)) {
+    pb.keyframes.set(pb.tick, structuredClone(pb.world));
+  }
+  return events;
+};
+
+// Jumps to any tick by restoring the nearest earlier keyframe and re-simulating forward.
+export const seekPlayback = (pb: Playback, target: number) => {
+  const tick = Math.max(0, Math.min(pb.replay.ticks, Math.floor(target)));
+  let base = 0;
+  for (const k of pb.keyframes.keys()) {
+    if (k <= tick && k > base) base = k;
+  }
+  if (tick < pb.tick || base > pb.tick) {
+    pb.world = structuredClone(pb.keyframes.get(base)!);
+    pb.tick = base;
+  }
+  while (pb.tick < tick) advancePlayback(pb);
+};
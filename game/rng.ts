@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Seeded PRNG so a voyage code always produces the same archipelago.
+// The generator state is a plain number on the world so it survives serialization.
+
+// Unambiguous characters only (no 0/O, 1/I/L) so codes can be read aloud.
+const SEED_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const SEED_LENGTH = 6;
+
+export interface RngState { rngState: number; }
+
+// The only place Math.random is allowed: picking a fresh voyage code.
+export const createSeedCode = () => {
+  let code = '';
+  for (let i = 0; i < SEED_LENGTH; i++) {
+    code += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  }
+  return code;
+};
+
+export const normalizeSeedCode = (input: string) => input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// FNV-1a: turns any seed code into a 32-bit generator state.
+export const hashSeed = (code: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < code.length; i++) {
+    h ^= code.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Mulberry32: fast, small and good enough for gameplay. Returns [0, 1).
+export const nextRandom = (r: RngState) => {
+  r.rngState = (r.rngState + 0x6d2b79f5) >>> 0;
+  let t = r.rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const randomRange = (r: RngState, min: number, max: number) => nextRandom(r) * (max - min) + min;
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, it, expect } from 'vitest';
+import { Keys } from './types';
+import { SIM_DT } from './constants';
+import { createWorld, step } from './simulation';
+import { createSave, parseSave } from './save';
+
+// Saves are written to localStorage on every delivery, so they carry the
+// world's state and none of its spray.
+
+const IDLE: Keys = { w: false, a: false, s: false, d: false, q: false, e: false, r: false, space: false };
+
+const sailedWorld = () => {
+  const s = createWorld('ABCDEF');
+  for (let i = 0; i < 300; i++) step(s, { keys: { ...IDLE, w: true, space: i % 60 === 0 }, frozen: false }, SIM_DT);
+  return s;
+};
+
+describe('saves', () => {
+  it('restores the world it was taken from', () => {
+    const s = sailedWorld();
+    const loaded = parseSave(JSON.stringify(createSave('slot1', s, null, null)));
+    expect(loaded.world.player).toEqual(s.player);
+    expect(loaded.world.islands).toEqual(s.islands);
+    expect(loaded.world.frameCount).toBe(s.frameCount);
+    expect(loaded.summary.ticks).toBe(s.frameCount);
+  });
+
+  it('leaves the particles out', () => {
+    const s = sailedWorld();
+    expect(s.particles.live.length).toBeGreaterThan(0);
+    const save = createSave('slot1', s, null, null);
+    expect(save.world.particles.live).toHaveLength(0);
+    expect(s.particles.live.length).toBeGreaterThan(0);
+  });
+
+  it('starts the particles afresh when loading an older save that kept them', () => {
+    const s = sailedWorld();
+    const save = { ...createSave('slot1', s, null, null), world: { ...s, events: [] } };
+    const loaded = parseSave(JSON.stringify(save));
+    expect(loaded.world.particles.live).toHaveLength(0);
+    expect(loaded.world.particles.nextId).toBe(1);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState } from './types';
+import { createWorld } from './simulation';
+import { createParticles } from './particles';
+import { DIFFICULTY_PRESETS, DifficultyId } from './constants';
+import { Replay, Recorder, finishRecording, parseReplay, serializeReplay } from './replay';
+import { openVoyage, validateVoyage } from './voyage';
+import { Campaign, parseCampaign } from './campaign';
+
+// A save is a snapshot of the whole world rather than its input history, so it
+// keeps loading after the simulation rules change (which invalidates replays).
+// The recording rides along and is dropped if it no longer reproduces.
+
+export const SAVE_VERSION = 2;
+
+export type SaveSlotId = 'auto' | 'slot1' | 'slot2' | 'slot3';
+export const SAVE_SLOTS: Record<SaveSlotId, string> = {
+  auto: 'Autosave',
+  slot1: 'Slot 1',
+  slot2: 'Slot 2',
+  slot3: 'Slot 3'
+};
+
+// Shown on the save cards without restoring the world
+export interface SaveSummary {
+  seed: string;
+  difficulty: DifficultyId;
+  leg: number | null; // Campaign voyage number, null for open voyages
+  score: number;
+  wave: number;
+  delivered: number;
+  islands: number;
+  health: number;
+  ticks: number;
+}
+
+export interface SaveGame {
+  version: number;
+  slot: SaveSlotId;
+  savedAt: number; // Wall-clock ms
+  summary: SaveSummary;
+  world: WorldState;
+  replay: Replay | null; // Recording so far, null once it no longer reproduces
+  campaign: Campaign | null; // Campaign progress as it stood, for campaign voyages
+}
+
+// Upgrades a save from the keyed version to the next one. Add an entry here
+// whenever SAVE_VERSION is bumped; fields that were simply added to the world
+// are backfilled below and need no migration.
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // Islands were discs and their numbered variant was never shown. Dropping
+  // both lets the backfill below rechart each island from the voyage code,
+  // with the coast and variant that code charts today.
+  1: data => ({
+    ...data,
+    world: {
+      ...data.world,
+      islands: Array.isArray(data.world?.islands)
+        ? data.world.islands.map((island: any) => {
+            if (!isObject(island)) return island;
+            const { radius, variant, ...rest } = island;
+            return rest;
+          })
+        : data.world?.islands
+    }
+  })
+};
+
+const storageKey = (slot: SaveSlotId) => `santas-pirate-seas:save:${slot}`;
+
+export const summarize = (s: WorldState): SaveSummary => ({
+  seed: s.seed,
+  difficulty: s.director.difficulty,
+  leg: s.voyage.mode === 'campaign' ? s.voyage.leg : null,
+  score: s.score,
+  wave: s.director.wave,
+  delivered: s.islands.filter(i => i.delivered).length,
+  islands: s.islands.length,
+  health: Math.max(0, Math.round(s.player.health)),
+  ticks: s.frameCount
+});
+
+// Particles are cosmetic and can run to thousands, so a save keeps an empty
+// system in their place rather than copying them out
+export const createSave = (slot: SaveSlotId, s: WorldState, recorder: Recorder | null, campaign: Campaign | null): SaveGame => {
+  const { particles, events, ...world } = s;
+  return {
+    version: SAVE_VERSION,
+    slot,
+    savedAt: Date.now(),
+    summary: summarize(s),
+    world: { ...structuredClone(world), particles: createParticles(s.seed), events: [] },
+    replay: recorder ? finishRecording(recorder) : null,
+    campaign
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Fills anything a newer build added to the world from a fresh world of the
+// same voyage, so older saves pick up sensible defaults
+const backfill = (loaded: any, fresh: any): any => {
+  if (Array.isArray(fresh)) return Array.isArray(loaded) ? loaded : fresh;
+  if (!isObject(fresh)) return loaded === undefined ? fresh : loaded;
+  if (!isObject(loaded)) return fresh;
+  const out: Record<string, any> = { ...loaded };
+  for (const key of Object.keys(fresh)) out[key] = backfill(loaded[key], fresh[key]);
+  return out;
+};
+
+// Turns stored text back into a save, migrating and checking it on the way; throws on anything unusable
+export const parseSave = (text: string): SaveGame => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Save is not valid JSON.");
+  }
+  if (!isObject(data) || !Number.isInteger(data.version)) throw new Error("Save has no version.");
+  if (data.version > SAVE_VERSION) throw new Error(`Save is from a newer version of the game: ${data.version}`);
+  while (data.version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[data.version];
+    if (!migrate) throw new Error(`No migration from save version ${data.version}`);
+    data = { ...migrate(data), version: data.version + 1 };
+  }
+
+  const world = data.world;
+  if (!isObject(world) || typeof world.seed !== 'string' || !world.seed) throw new Error("Save is missing its voyage code.");
+  if (!isObject(world.director) || !Object.prototype.hasOwnProperty.call(DIFFICULTY_PRESETS, world.director.difficulty)) {
+    throw new Error(`Unknown save difficulty: ${world.director?.difficulty}`);
+  }
+  if (!isObject(world.player) || !Array.isArray(world.islands) || !Array.isArray(world.enemies)) throw new Error("Save world is corrupted.");
+
+  // Saves from before campaigns were all open voyages
+  const voyage = world.voyage ? validateVoyage(world.voyage) : openVoyage();
+  const fresh = createWorld(world.seed, world.director.difficulty, voyage);
+  const restored: WorldState = {
+    ...backfill(world, fresh),
+    islands: world.islands.map((island: any, i: number) => backfill(island, fresh.islands[i] ?? fresh.islands[0])),
+    particles: createParticles(world.seed), // Older saves copied out every live particle
+    events: []
+  };
+
+  let replay: Replay | null = null;
+  if (data.replay) {
+    try {
+      replay = parseReplay(serializeReplay(data.replay));
+    } catch (error) {
+      console.warn("Saved recording no longer reproduces:", error);
+    }
+  }
+
+  return {
+    version: SAVE_VERSION,
+    slot: Object.prototype.hasOwnProperty.call(SAVE_SLOTS, data.slot) ? data.slot : 'slot1',
+    savedAt: Number.isFinite(data.savedAt) ? data.savedAt : 0,
+    summary: summarize(restored),
+    world: restored,
+    replay,
+    campaign: restored.voyage.mode === 'campaign' ? parseCampaign(data.campaign) : null
+  };
+};
+
+// --- Storage ---
+export const writeSave = (save: SaveGame) => {
+  try {
+    localStorage.setItem(storageKey(save.slot), JSON.stringify(save));
+    return true;
+  } catch (error) {
+    console.warn("Could not write the save:", error);
+    return false;
+  }
+};
+
+export const readSave = (slot: SaveSlotId): SaveGame | null => {
+  try {
+    const text = localStorage.getItem(storageKey(slot));
+    return text ? parseSave(text) : null;
+  } catch (error) {
+    console.warn(`Could not read ${SAVE_SLOTS[slot]}:`, error);
+    return null;
+  }
+};
+
+export const deleteSave = (slot: SaveSlotId) => {
+  try {
+    localStorage.removeItem(storageKey(slot));
+  } catch (error) {
+    console.warn("Could not delete the save:", error);
+  }
+};
+
+// Every slot, empty ones as null, in menu order
+export const listSaves = () =>
+  (Object.keys(SAVE_SLOTS) as SaveSlotId[]).map(slot => ({ slot, save: readSave(slot) }));
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, it, expect } from 'vitest';
+import { WorldState, Keys, SimEvent, Island } from './types';
+import { SIM_DT, DELIVERY_SCORE, PERFECT_DELIVERY_BONUS, MIXUP_PENALTY, PRESENT_ORDER } from './constants';
+import { createWorld, step, spawnEnemy, spawnProjectile } from './simulation';
+import { coastRadius, dockBerth } from './islands';
+import { journalEntryForEvent } from './journal';
+import { createBrain } from './ai';
+
+// Headless scenarios: each test sets a scene on a seeded world, drives it
+// through step() and checks the events and state that come out.
+
+const SEED = 'ABCDEF';
+
+const IDLE: Keys = { w: false, a: false, s: false, d: false, q: false, e: false, r: false, space: false };
+
+const tick = (s: WorldState, keys: Partial<Keys> = {}): SimEvent[] =>
+  step(s, { keys: { ...IDLE, ...keys }, frozen: false }, SIM_DT);
+
+// Runs until an event of the given type turns up, or gives up after `limit` ticks
+const tickUntil = <T extends SimEvent['type']>(s: WorldState, type: T, limit = 120, keys: Partial<Keys> = {}) => {
+  for (let i = 0; i < limit; i++) {
+    const found = tick(s, i === 0 ? keys : {}).find(e => e.type === type);
+    if (found) return found as Extract<SimEvent, { type: T }>;
+  }
+  return undefined;
+};
+
+// Parks Santa just off a beach, well clear of every pirate
+const moorBeside = (s: WorldState, island: Island, bearing = 0) => {
+  const reach = coastRadius(island, bearing) + 20;
+  s.enemies = [];
+  s.projectiles = [];
+  s.player.x = island.x + Math.cos(bearing) * reach;
+  s.player.y = island.y + Math.sin(bearing) * reach;
+  s.player.velocity = { x: 0, y: 0 };
+};
+
+describe('combat', () => {
+  it('lands a broadside on a pirate alongside', () => {
+    const s = createWorld(SEED);
+    s.enemies = [];
+    spawnEnemy(s, 'pirate');
+    const pirate = s.enemies[0];
+    // Starboard beam of a ship pointing along +x is +y
+    s.player.rotation = 0;
+    pirate.x = s.player.x;
+    pirate.y = s.player.y + 70;
+    pirate.velocity = { x: 0, y: 0 };
+
+    const before = pirate.health;
+    tick(s, { space: true });
+    for (let i = 0; i < 30 && pirate.health === before; i++) tick(s);
+
+    expect(pirate.health).toBeLessThan(before);
+    expect(s.stats.shotsFired).toBeGreaterThan(0);
+    expect(s.stats.shotsHit).toBeGreaterThan(0);
+  });
+
+  it('sinks Santa when the hull gives out', () => {
+    const s = createWorld(SEED);
+    s.enemies = [];
+    s.player.health = 1;
+    spawnProjectile(s, s.player.x, s.player.y, 0, 'enemy');
+
+    const sunk = tickUntil(s, 'playerSunk', 5);
+    expect(sunk).toBeDefined();
+    expect(s.player.active).toBe(false);
+  });
+});
+
+describe('delivery', () => {
+  const beachIsland = (s: WorldState) => s.islands.find(i => i.dock === null)!;
+
+  it('scores a full delivery with the perfect bonus', () => {
+    const s = createWorld(SEED);
+    const island = beachIsland(s);
+    s.cargo.hold = [...island.wish];
+    moorBeside(s, island);
+
+    const delivered = tickUntil(s, 'delivered', 5);
+    expect(delivered?.island).toBe(island);
+    expect(delivered?.matched).toBe(island.wish.length);
+    expect(delivered?.score).toBe(DELIVERY_SCORE + PERFECT_DELIVERY_BONUS);
+    expect(island.delivered).toBe(true);
+    expect(s.cargo.hold).toHaveLength(0);
+  });
+
+  it('penalises a mix-up', () => {
+    const s = createWorld(SEED);
+    const island = beachIsland(s);
+    const wrong = PRESENT_ORDER.find(kind => !island.wish.includes(kind))!;
+    s.cargo.hold = island.wish.map(() => wrong);
+    s.score = 1000;
+    moorBeside(s, island);
+
+    const delivered = tickUntil(s, 'delivered', 5);
+    expect(delivered?.matched).toBe(0);
+    expect(delivered?.score).toBe(-MIXUP_PENALTY * island.wish.length);
+    expect(s.score).toBe(1000 - MIXUP_PENALTY * island.wish.length);
+    expect(island.delivered).toBe(true);
+    expect(journalEntryForEvent(s, delivered!)?.text).toContain(`, -${MIXUP_PENALTY * island.wish.length})`);
+  });
+
+  it('only hands presents to a village at its pier', () => {
+    const s = createWorld(SEED);
+    const village = s.islands.find(i => i.dock !== null)!;
+    s.cargo.hold = [...village.wish];
+    moorBeside(s, village, village.dock! + Math.PI);
+    expect(tickUntil(s, 'delivered', 5)).toBeUndefined();
+
+    const berth = dockBerth(village)!;
+    s.player.x = berth.x;
+    s.player.y = berth.y;
+    s.player.velocity = { x: 0, y: 0 };
+    expect(tickUntil(s, 'delivered', 5)?.island).toBe(village);
+  });
+});
+
+describe('spawning', () => {
+  // One island whose shore lies beyond every corner of the sea
+  const drown = (s: WorldState) => {
+    const size = s.voyage.worldSize;
+    const island = s.islands[0];
+    s.islands = [{ ...island, x: size / 2, y: size / 2, radius: size, coast: island.coast.map(() => size), dock: null }];
+  };
+
+  it('places pirates in open water far from Santa', () => {
+    const s = createWorld(SEED);
+    s.enemies = [];
+    spawnEnemy(s, 'pirate');
+    const pirate = s.enemies[0];
+    expect(Math.hypot(pirate.x - s.player.x, pirate.y - s.player.y)).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('skips a pirate with no open water to put it in', () => {
+    const s = createWorld(SEED);
+    s.enemies = [];
+    drown(s);
+    spawnEnemy(s, 'pirate');
+    spawnEnemy(s, 'elite', true);
+    expect(s.enemies).toHaveLength(0);
+  });
+
+  it('keeps a patrol where it is when there is no open water to head for', () => {
+    const s = createWorld(SEED);
+    drown(s);
+    expect(createBrain(s, 'patrol', { x: 120, y: 340 }).target).toEqual({ x: 120, y: 340 });
+  });
+});
+
+describe('world generation', () => {
+  it('charts the same archipelago for the same voyage code', () => {
+    expect(JSON.stringify(createWorld(SEED).islands)).toBe(JSON.stringify(createWorld(SEED).islands));
+  });
+});
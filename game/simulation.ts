@@ -0,0 +1,572 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, Ship, Island, Entity, StepInput, SimEvent, Voyage } from './types';
+import {
+  SHIP_THRUST, TURN_TORQUE, MAX_ANGULAR_VELOCITY, ANGULAR_DRAG, FORWARD_DRAG, SIDEWAYS_DRAG,
+  CANNON_COOLDOWN, WEAPONS, WeaponId, TRIM_RATE, AMBIENT_GLINTS, DELIVERY_SCORE, WORLD_SIZE, IRONCLAD_HEALTH, CARGO_CAPACITY,
+  ENEMY_CLASSES, DifficultyId, DEFAULT_DIFFICULTY, SHALLOWS_WIDTH, PERFECT_DELIVERY_BONUS, MIXUP_PENALTY, AMBUSH_RANGE,
+  ISLAND_VARIANT_ORDER, DOCK_LENGTH, DOCK_BERTH
+} from './constants';
+import { createDirector, updateDirector, presetOf } from './director';
+import { createWind, updateWind, sailThrust, optimalTrim, normalizeAngle } from './wind';
+import { createBrain, updateEnemyAI, enemyClass } from './ai';
+import { resolveShore, landAt } from './terrain';
+import { chartCoast, clearDock, canDeliver } from './islands';
+import { applyStoryEffects } from './effects';
+import { createCargo, createHarbor, updateHarbor, unloadFor, shakeCargo, rollWish, stockHold, revealWishes } from './cargo';
+import { createStats } from './stats';
+import { openVoyage, hasModifier, isVoyageComplete } from './voyage';
+import { spatialIndex, indexEnemies, indexProjectiles, queryRadius } from './spatial';
+import { createParticles, emitParticles, addGlint, updateParticles } from './particles';
+import { createArsenal, cycleWeapon, loadVolley, salvage, projectileDamage, applyHit, updateShipDamage, damageThrust } from './weapons';
+import { createSeedCode, hashSeed, nextRandom, normalizeSeedCode, randomRange } from './rng';
+
+// The simulation is headless: it never touches React, the DOM or a canvas.
+// All game rules live here and mutate the WorldState passed in. Every random
+// roll goes through the world's seeded generators, never Math.random.
+
+// --- Helpers ---
+export const random = (s: WorldState) => nextRandom(s);
+
+const nextId = (s: WorldState) => s.nextId++;
+
+const emit = (s: WorldState, event: SimEvent) => { s.events.push(event); };
+
+export const checkCollision = (c1: Entity, c2: Entity) => {
+    const dist = Math.hypot(c1.x - c2.x, c1.y - c2.y);
+    return dist < c1.radius + c2.radius - 5;
+};
+
+const createPlayer = (size: number): Ship => ({
+  id: 0, x: size / 2, y: size / 2, radius: 30, rotation: -Math.PI / 2,
+  active: true, velocity: { x: 0, y: 0 }, angularVelocity: 0, speed: 0, health: 100, maxHealth: 100, cooldown: 0,
+  type: 'player', wobbleOffset: 0, sailTrim: 0.5, sailDamage: 0, slowTimer: 0
+});
+
+// --- Initialization ---
+export const createWorld = (seedCode: string = createSeedCode(), difficulty: DifficultyId = DEFAULT_DIFFICULTY, voyage: Voyage = openVoyage()): WorldState => {
+  const seed = normalizeSeedCode(seedCode) || createSeedCode();
+  const size = voyage.worldSize;
+  const s: WorldState = {
+    player: createPlayer(size),
+    projectiles: [],
+    particles: createParticles(seed),
+    enemies: [],
+    islands: [],
+    arsenal: createArsenal(),
+    cargo: createCargo(voyage.modifiers.includes('leanStores') ? CARGO_CAPACITY - 1 : CARGO_CAPACITY),
+    harbor: createHarbor(size),
+    stats: createStats(),
+    voyage,
+    camera: { x: 0, y: 0, shake: 0 },
+    wind: { angle: 0, strength: 1, targetAngle: 0, targetStrength: 1, shiftTimer: 0 },
+    score: 0,
+    time: 0,
+    frameCount: 0,
+    nextId: 1,
+    director: createDirector(difficulty),
+    seed,
+    rngState: hashSeed(seed),
+    events: []
+  };
+
+  // Generate Islands
+  for (let i = 0; i < voyage.islandCount; i++) {
+    let x, y, dist;
+    do {
+      x = randomRange(s, 200, size - 200);
+      y = randomRange(s, 200, size - 200);
+      dist = Math.hypot(x - size/2, y - size/2);
+    } while(dist < 500); // Keep islands away from spawn
+
+    // Rolled in the order voyage codes have always rolled them; the coast
+    // comes from a generator of its own (see islands.ts)
+    const extent = randomRange(s, 70, 100);
+    const rotation = randomRange(s, 0, Math.PI * 2);
+    const color = `hsl(${randomRange(s, 90, 140)}, 60%, 45%)`;
+    const variant = ISLAND_VARIANT_ORDER[Math.floor(random(s) * ISLAND_VARIANT_ORDER.length)];
+    s.islands.push({
+      id: i,
+      x, y,
+      ...chartCoast(s, i, x, y, extent, variant),
+      rotation,
+      active: true,
+      name: `Isle ${i + 1}`,
+      delivered: false,
+      color,
+      variant,
+      wish: [],
+      wishKnown: false,
+      rumored: false
+    });
+  }
+
+  for (const island of s.islands) clearDock(s, island);
+
+  // Rolled after the islands so a voyage code keeps charting the same archipelago
+  s.wind = createWind(s);
+
+  // Ambient Ocean particles
+  const glints = Math.round(AMBIENT_GLINTS * (size / WORLD_SIZE) ** 2);
+  for(let i=0; i<glints; i++) {
+      const x = random(s) * size;
+      const y = random(s) * size;
+      addGlint(s, x, y, random(s) * 2 + 1);
+  }
+
+  // Wishlists come last so older voyage codes keep their islands and wind
+  for (const island of s.islands) island.wish = rollWish(s);
+  stockHold(s);
+
+  return s;
+};
+
+const SPAWN_TRIES = 200; // Random spots tried before settling for the best one
+
+// Population is decided by the director (see director.ts) and the narrator
+// (see effects.ts); this just places the ship. Ambushers appear close by and
+// come straight for Santa.
+export const spawnEnemy = (s: WorldState, enemyType: 'pirate' | 'elite', ambush = false) => {
+  const stats = ENEMY_CLASSES[enemyType];
+  const health = Math.round(stats.health * presetOf(s).enemyHealth * (hasModifier(s, 'ironclads') ? IRONCLAD_HEALTH : 1));
+  const clearance = SHALLOWS_WIDTH + stats.radius;
+  const inOpenWater = (x: number, y: number) =>
+    x > 0 && x < s.voyage.worldSize && y > 0 && y < s.voyage.worldSize && !landAt(s, x, y, clearance);
+
+  let ex = 0, ey = 0, placed = false;
+  for (let tries = 0; ambush && !placed && tries < 12; tries++) {
+      const angle = random(s) * Math.PI * 2;
+      ex = s.player.x + Math.cos(angle) * AMBUSH_RANGE;
+      ey = s.player.y + Math.sin(angle) * AMBUSH_RANGE;
+      placed = inOpenWater(ex, ey);
+  }
+  // Spawn far away. A crowded sea may have no open water that far out, so
+  // after enough tries settle for the farthest found, or for none at all.
+  let best = -1;
+  for (let tries = 0; !placed && tries < SPAWN_TRIES; tries++) {
+      const x = random(s) * s.voyage.worldSize;
+      const y = random(s) * s.voyage.worldSize;
+      if (!inOpenWater(x, y)) continue;
+      const distance = Math.hypot(x - s.player.x, y - s.player.y);
+      if (distance > best) { best = distance; ex = x; ey = y; }
+      placed = distance >= 1000;
+  }
+  if (!placed && best < 0) return;
+
+  s.enemies.push({
+    id: nextId(s),
+    x: ex,
+    y: ey,
+    radius: stats.radius,
+    rotation: random(s) * Math.PI * 2,
+    active: true,
+    velocity: { x: 0, y: 0 },
+    angularVelocity: 0,
+    speed: 0,
+    health,
+    maxHealth: health,
+    cooldown: 0,
+    type: enemyType,
+    wobbleOffset: random(s) * 100,
+    sailTrim: 0.5,
+    sailDamage: 0,
+    slowTimer: 0,
+    ai: createBrain(s, ambush ? 'pursue' : 'patrol', { x: ex, y: ey })
+  });
+};
+
+// --- Physics ---
+export const applyShipPhysics = (s: WorldState, ship: Ship, thrust: boolean, turnLeft: boolean, turnRight: boolean, dt: number) => {
+   // 1. Angular Physics (Turning)
+   // Apply torque
+   if (turnLeft) ship.angularVelocity -= TURN_TORQUE * dt;
+   if (turnRight) ship.angularVelocity += TURN_TORQUE * dt;
+
+   // Angular Drag
+   ship.angularVelocity *= Math.pow(ANGULAR_DRAG, dt);
+   // Clamp Max Turn
+   ship.angularVelocity = Math.max(-MAX_ANGULAR_VELOCITY, Math.min(MAX_ANGULAR_VELOCITY, ship.angularVelocity));
+
+   // Apply Rotation
+   ship.rotation += ship.angularVelocity * dt;
+
+   // 2. Linear Physics (Movement)
+   // Calculate Forward Vector based on rotation
+   // Note: Standard Math.cos/sin assumes 0 is +X (Right).
+   // Our ship visual has Bow at -Y (Up).
+   // The renderer compensates by rotating +90deg.
+   // So here, Physics Rotation 0 = Right. Visual draws Right.
+
+   // Sails only draw as much as the wind and trim allow (nothing when in irons),
+   // less whatever chain or coal shot has taken out of them
+   updateShipDamage(ship, dt);
+   if (thrust) {
+       const power = SHIP_THRUST * sailThrust(ship, s.wind) * damageThrust(ship);
+       ship.velocity.x += Math.cos(ship.rotation) * power * dt;
+       ship.velocity.y += Math.sin(ship.rotation) * power * dt;
+   }
+
+   // 3. Keel Physics (Drift/Drag)
+   // Decompose velocity into Forward and Sideways components relative to the ship
+   const forwardX = Math.cos(ship.rotation);
+   const forwardY = Math.sin(ship.rotation);
+   const rightX = -Math.sin(ship.rotation); // Perpendicular vector
+   const rightY = Math.cos(ship.rotation);
+
+   // Dot product to get magnitude in each direction
+   const dotForward = ship.velocity.x * forwardX + ship.velocity.y * forwardY;
+   const dotRight = ship.velocity.x * rightX + ship.velocity.y * rightY;
+
+   // Apply different drag coefficients
+   // Ships glide well forward, but resist moving sideways strongly (Keel)
+   const newForwardMag = dotForward * Math.pow(FORWARD_DRAG, dt);
+   const newRightMag = dotRight * Math.pow(SIDEWAYS_DRAG, dt);
+
+   // Recompose velocity
+   ship.velocity.x = newForwardMag * forwardX + newRightMag * rightX;
+   ship.velocity.y = newForwardMag * forwardY + newRightMag * rightY;
+
+   // Update Position
+   ship.x += ship.velocity.x * dt;
+   ship.y += ship.velocity.y * dt;
+
+   // Wake Particles
+   const speed = Math.hypot(ship.velocity.x, ship.velocity.y);
+   if (speed > 1) {
+       createWake(s, ship);
+   }
+};
+
+const createWake = (s: WorldState, ship: Ship) => {
+  const angle = ship.rotation + Math.PI; // Behind ship
+  // A puff off each quarter every few frames
+  for (const side of [0.5, -0.5]) {
+      emitParticles(s, 'wake', ship.x + Math.cos(angle + side) * 20, ship.y + Math.sin(angle + side) * 20, 0.2);
+  }
+};
+
+export const createExplosion = (s: WorldState, x: number, y: number, type: 'orange' | 'red', count = 10) => {
+    emit(s, { type: 'explosion', x, y, kind: type, size: count });
+    emitParticles(s, type === 'red' ? 'fireRed' : 'fireOrange', x, y, count);
+    emitParticles(s, 'blastSmoke', x, y, count / 2);
+};
+
+// --- Shooting Mechanics ---
+
+// Player: Fires from Left and Right sides (Broadsides)
+export const fireBroadside = (s: WorldState, ship: Ship, owner: 'player' | 'enemy', weapon: WeaponId = 'round') => {
+    // Recoil
+    ship.velocity.x -= Math.cos(ship.rotation) * 0.5;
+    ship.velocity.y -= Math.sin(ship.rotation) * 0.5;
+    if (owner === 'player') s.camera.shake = 5;
+
+    // Port Side (-90 deg)
+    fireCannons(s, ship, owner, -Math.PI/2, weapon);
+    // Starboard Side (+90 deg)
+    fireCannons(s, ship, owner, Math.PI/2, weapon);
+};
+
+// Enemy: Fires from Front (Chasers)
+export const fireChasers = (s: WorldState, ship: Ship, owner: 'player' | 'enemy', weapon: WeaponId = 'round') => {
+    // Two front facing guns
+    const offsets = [-5, 5];
+
+    const fwdX = Math.cos(ship.rotation);
+    const fwdY = Math.sin(ship.rotation);
+    const rightX = -Math.sin(ship.rotation);
+    const rightY = Math.cos(ship.rotation);
+
+    offsets.forEach(offX => {
+         // Bow is forward 32 units.
+         // Chasers are spread left/right by 5 units.
+         const spawnX = ship.x + (fwdX * 32) + (rightX * offX);
+         const spawnY = ship.y + (fwdY * 32) + (rightY * offX);
+
+         spawnProjectile(s, spawnX, spawnY, ship.rotation, owner, weapon, projectileDamage(weapon, ship));
+    });
+};
+
+const fireCannons = (s: WorldState, ship: Ship, owner: 'player'|'enemy', angleOffset: number, weapon: WeaponId) => {
+    // Cannon positions along the hull (local Y coordinates in the drawing function)
+    // These correspond to "forward/backward" along the ship length.
+    const longitudinalOffsets = [-15, -5, 5];
+    // Distance from center to side (width)
+    const lateralDist = 16;
+
+    const fwdX = Math.cos(ship.rotation);
+    const fwdY = Math.sin(ship.rotation);
+    const rightX = -Math.sin(ship.rotation);
+    const rightY = Math.cos(ship.rotation);
+
+    // angleOffset is -PI/2 (Port/Left) or +PI/2 (Starboard/Right)
+    // If firing Port, we use -Right vector.
+    const isPort = angleOffset < 0;
+    const sideDir = isPort ? -1 : 1;
+
+    longitudinalOffsets.forEach(fwdOffset => {
+        // Offset Logic:
+        // The drawing has -Y as "Up" or Bow.
+        // Physics Fwd (+X) corresponds to visual Up (-Y).
+        // So a visual offset of -15 (towards bow) means +15 in physics forward direction.
+        // Calculation: fwdX * -(-15) = fwdX * 15. Correct.
+
+        const spawnX = ship.x + (fwdX * -fwdOffset) + (rightX * (sideDir * lateralDist));
+        const spawnY = ship.y + (fwdY * -fwdOffset) + (rightY * (sideDir * lateralDist));
+
+        // Fire direction
+        const fireAngle = ship.rotation + angleOffset;
+
+        // Add spread (grapeshot loads several pellets per gun)
+        const stats = WEAPONS[weapon];
+        for (let n = 0; n < stats.pellets; n++) {
+            const spread = (random(s) - 0.5) * stats.spread;
+            spawnProjectile(s, spawnX, spawnY, fireAngle + spread, owner, weapon, projectileDamage(weapon, ship));
+        }
+    });
+};
+
+export const spawnProjectile = (s: WorldState, x: number, y: number, angle: number, owner: 'player' | 'enemy', weapon: WeaponId = 'round', damage: number = WEAPONS[weapon].damage) => {
+    const stats = WEAPONS[weapon];
+    emit(s, { type: 'cannonFired', x, y, owner });
+    if (owner === 'player') s.stats.shotsFired++;
+    emitParticles(s, 'muzzle', x, y, 1, angle);
+    emitParticles(s, 'gunSmoke', x, y, 1, angle);
+
+    s.projectiles.push({
+        id: nextId(s),
+        x: x,
+        y: y,
+        radius: stats.size - 1, rotation: angle, active: true,
+        velocity: {
+            x: Math.cos(angle) * stats.speed,
+            y: Math.sin(angle) * stats.speed
+        },
+        owner: owner,
+        weapon,
+        damage,
+        life: stats.range
+    });
+};
+
+// Runs a ship into (and back off) the shore. A hard grounding stove in the hull;
+// enemies are left limping rather than wrecked so they never sink on their own.
+const groundShip = (s: WorldState, ship: Ship, dt: number) => {
+    const damage = resolveShore(s, ship, dt);
+    if (damage <= 0) return;
+    ship.health -= damage;
+    emit(s, { type: 'grounded', x: ship.x, y: ship.y, damage });
+    emitParticles(s, 'sand', ship.x, ship.y, 6);
+    if (ship.type !== 'player') {
+        ship.health = Math.max(1, ship.health);
+        return;
+    }
+    s.camera.shake = Math.max(s.camera.shake, 6);
+    s.stats.damageTaken += damage;
+    shakeCargo(s, damage);
+    if (ship.health <= 0) {
+        ship.active = false;
+        createExplosion(s, ship.x, ship.y, 'red', 60);
+        emit(s, { type: 'playerSunk' });
+    }
+};
+
+// Scores a delivery against the island's wishlist: prorated for what matched,
+// a bonus when everything did, a penalty for every mix-up.
+const deliverPresent = (s: WorldState, island: Island) => {
+    const unloaded = unloadFor(s, island);
+    if (!unloaded) return;
+    const { given, matched } = unloaded;
+    const wrong = given.length - matched;
+    let score = Math.round(DELIVERY_SCORE * matched / island.wish.length);
+    score += wrong === 0 ? PERFECT_DELIVERY_BONUS : -MIXUP_PENALTY * wrong;
+    island.delivered = true;
+    s.stats.delivered++;
+    s.score = Math.max(0, s.score + score);
+    emit(s, { type: 'delivered', island, given, matched, score });
+    if (isVoyageComplete(s)) emit(s, { type: 'voyageComplete' });
+};
+
+// --- Step ---
+// Advances the world by dt (normalized so 1 = one 60fps frame) and returns
+// everything noteworthy that happened so the shell can react (UI, narration).
+export const step = (s: WorldState, input: StepInput, dt: number): SimEvent[] => {
+  s.events = [];
+  const { keys, frozen } = input;
+  s.time += 0.01 * dt;
+
+  const p = s.player;
+
+  // --- Narrator Effects ---
+  if (input.effects) {
+    const ambushers = applyStoryEffects(s, input.effects);
+    for (let i = 0; i < ambushers; i++) spawnEnemy(s, 'pirate', true);
+    if (ambushers > 0) indexEnemies(s); // So the pack knows about them straight away
+  }
+
+  // --- Screen Shake Decay ---
+  if (s.camera.shake > 0) s.camera.shake *= Math.pow(0.9, dt);
+  if (s.camera.shake < 0.5) s.camera.shake = 0;
+
+  // --- Wind ---
+  if (!frozen) updateWind(s, dt);
+
+  // --- Player Logic ---
+  if (p.active && !frozen) {
+    // Sail trim (Q hauls in, E eases out)
+    if (keys.q) p.sailTrim = Math.max(0, p.sailTrim - TRIM_RATE * dt);
+    if (keys.e) p.sailTrim = Math.min(1, p.sailTrim + TRIM_RATE * dt);
+
+    // Physics
+    applyShipPhysics(s, p, keys.w, keys.a, keys.d, dt);
+    s.stats.distance += Math.hypot(p.velocity.x, p.velocity.y) * dt;
+    s.stats.ticks++;
+
+    // Boundaries
+    p.x = Math.max(0, Math.min(s.voyage.worldSize, p.x));
+    p.y = Math.max(0, Math.min(s.voyage.worldSize, p.y));
+    groundShip(s, p, dt);
+
+    // Ammo (R cycles once per press)
+    if (keys.r && !s.arsenal.cycleHeld) cycleWeapon(s.arsenal);
+    s.arsenal.cycleHeld = keys.r;
+
+    // Shooting
+    if (p.cooldown > 0) p.cooldown -= 1 * dt;
+    if (keys.space && p.cooldown <= 0) {
+       fireBroadside(s, p, 'player', loadVolley(s.arsenal));
+       p.cooldown = CANNON_COOLDOWN;
+    }
+  }
+
+  // --- Enemy Logic ---
+  s.enemies.forEach(enemy => {
+     if (!enemy.active || frozen) return;
+
+     // AI decides where to steer and whether to shoot; we just execute it
+     const stats = enemyClass(enemy);
+     const command = updateEnemyAI(s, enemy, dt);
+     const steerDiff = normalizeAngle(command.heading - enemy.rotation);
+
+     const turnLeft = steerDiff < -0.1;
+     const turnRight = steerDiff > 0.1;
+     // Only drive when roughly on course
+     const thrust = command.thrust && Math.abs(steerDiff) < 1.0;
+     enemy.sailTrim = optimalTrim(enemy.rotation, s.wind);
+
+     applyShipPhysics(s, enemy, thrust, turnLeft, turnRight, dt);
+     groundShip(s, enemy, dt);
+
+     // Shoot logic
+     if (enemy.cooldown > 0) enemy.cooldown -= 1 * dt;
+     if (command.fire && enemy.cooldown <= 0) {
+        if (stats.guns === 'chasers') fireChasers(s, enemy, 'enemy', stats.shot);
+        else fireBroadside(s, enemy, 'enemy', stats.shot);
+        enemy.cooldown = stats.cooldown;
+     }
+  });
+  // Cannonballs are tested against where the ships ended up
+  indexEnemies(s);
+  const enemyGrid = spatialIndex(s).enemies;
+
+  // --- Projectiles ---
+  for (let i = s.projectiles.length - 1; i >= 0; i--) {
+    const proj = s.projectiles[i];
+    if (frozen) break;
+    proj.x += proj.velocity.x * dt;
+    proj.y += proj.velocity.y * dt;
+
+    // Smoke trail
+    emitParticles(s, 'trail', proj.x, proj.y, 0.3);
+
+    // Remove when spent or out of bounds
+    proj.life -= dt;
+    if (proj.life <= 0 || proj.x < 0 || proj.x > s.voyage.worldSize || proj.y < 0 || proj.y > s.voyage.worldSize) {
+        s.projectiles.splice(i, 1);
+        continue;
+    }
+
+    // Land stops the ball dead, so islands make cover
+    if (landAt(s, proj.x, proj.y)) {
+        emitParticles(s, 'sand', proj.x, proj.y, 3);
+        s.projectiles.splice(i, 1);
+        continue;
+    }
+
+    // Collision: Projectile vs Player
+    if (proj.owner === 'enemy' && p.active) {
+        if (checkCollision(proj, p)) {
+            applyHit(p, proj);
+            s.camera.shake = 8;
+            createExplosion(s, p.x, p.y, 'orange', 15);
+            s.projectiles.splice(i, 1);
+            emit(s, { type: 'playerHit', damage: proj.damage });
+            s.stats.damageTaken += proj.damage;
+            shakeCargo(s, proj.damage);
+            if (p.health <= 0) {
+                p.active = false;
+                createExplosion(s, p.x, p.y, 'red', 60);
+                emit(s, { type: 'playerSunk' });
+            }
+            continue;
+        }
+    }
+
+    // Collision: Projectile vs Enemy
+    if (proj.owner === 'player') {
+        let hit = false;
+        for (const index of queryRadius(enemyGrid, proj.x, proj.y, proj.radius)) {
+            const enemy = s.enemies[index];
+            if (!enemy.active) continue;
+            if (checkCollision(proj, enemy)) {
+                applyHit(enemy, proj);
+                createExplosion(s, enemy.x, enemy.y, 'orange', 8);
+                s.stats.shotsHit++;
+                hit = true;
+                if (enemy.health <= 0) {
+                    enemy.active = false;
+                    createExplosion(s, enemy.x, enemy.y, 'red', 40);
+                    s.camera.shake = enemy.type === 'elite' ? 10 : 5;
+                    s.score += enemyClass(enemy).bounty;
+                    salvage(s.arsenal, enemy);
+                    s.stats.sunk[enemy.type === 'elite' ? 'elite' : 'pirate']++;
+                    emit(s, { type: 'enemySunk', enemy });
+                }
+                break;
+            }
+        }
+        if (hit) {
+            s.projectiles.splice(i, 1);
+            continue;
+        }
+    }
+  }
+
+  // --- Waves ---
+  if (!frozen) {
+    for (const type of updateDirector(s, dt)) spawnEnemy(s, type);
+  }
+
+  // --- Harbor & Island Delivery ---
+  if (p.active && !frozen) {
+      updateHarbor(s, dt);
+      revealWishes(s);
+      // Villages take presents at the end of their pier, out past the coast
+      for (const index of queryRadius(spatialIndex(s).islands, p.x, p.y, p.radius + DOCK_LENGTH + DOCK_BERTH)) {
+          const island = s.islands[index];
+          if (!island.delivered && canDeliver(island, p)) deliverPresent(s, island);
+      }
+  }
+
+  // --- Particles ---
+  updateParticles(s, dt);
+
+  // --- Spatial Index ---
+  // Refiled for the renderer and the next tick's AI
+  indexEnemies(s);
+  indexProjectiles(s);
+
+  s.frameCount++;
+  return s.events;
+};
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, Entity } from './types';
+import { SPATIAL_CELL_SIZE } from './constants';
+
+// Uniform grid over the sea so hit tests, delivery, culling and the AI only
+// look at what is nearby instead of scanning every ship, ball and island.
+//
+// Each entity is filed under the cell holding its centre and queries widen
+// their search by the largest radius filed, so anything overlapping the query
+// area is returned. Results are indices into the array the layer was filled
+// from, in ascending order, so callers see things in the same order a plain
+// scan would (which keeps every roll, and so every replay, unchanged).
+// Queries only narrow the candidates; callers still do the exact test.
+
+export interface SpatialGrid {
+  cellSize: number;
+  cols: number; // Square grid, cols x cols cells
+  cells: number[][]; // Row-major buckets of indices into the source array
+  used: number[]; // Non-empty cells, so clearing skips the empty sea
+  count: number; // Entities filed
+  maxRadius: number; // Largest radius filed, how far queries have to widen
+}
+
+// One grid per kind of entity. Islands never move and are filed once; ships
+// and projectiles are refiled by the simulation as they move (see step).
+export interface SpatialIndex {
+  islands: SpatialGrid;
+  enemies: SpatialGrid;
+  projectiles: SpatialGrid;
+}
+
+export const createGrid = (worldSize: number, cellSize = SPATIAL_CELL_SIZE): SpatialGrid => {
+  // One spare column and row for entities sitting exactly on the far edge
+  const cols = Math.ceil(worldSize / cellSize) + 1;
+  return { cellSize, cols, cells: Array.from({ length: cols * cols }, () => []), used: [], count: 0, maxRadius: 0 };
+};
+
+// Entities off the edge of the sea are filed in the border cells
+const cellOf = (grid: SpatialGrid, v: number) => Math.max(0, Math.min(grid.cols - 1, Math.floor(v / grid.cellSize)));
+
+// Empties the grid and files every entity that passes the filter
+export const fillGrid = <T extends Entity>(grid: SpatialGrid, items: T[], include: (item: T) => boolean = () => true) => {
+  for (const cell of grid.used) grid.cells[cell].length = 0;
+  grid.used.length = 0;
+  grid.count = 0;
+  grid.maxRadius = 0;
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (!include(item)) continue;
+    const cell = cellOf(grid, item.y) * grid.cols + cellOf(grid, item.x);
+    if (grid.cells[cell].length === 0) grid.used.push(cell);
+    grid.cells[cell].push(i);
+    grid.count++;
+    grid.maxRadius = Math.max(grid.maxRadius, item.radius);
+  }
+};
+
+// Indices of everything that may overlap a rectangle, ascending
+export const queryRect = (grid: SpatialGrid, left: number, top: number, right: number, bottom: number): number[] => {
+  const found: number[] = [];
+  if (grid.count === 0) return found;
+  const pad = grid.maxRadius;
+  const c0 = cellOf(grid, left - pad), c1 = cellOf(grid, right + pad);
+  const r0 = cellOf(grid, top - pad), r1 = cellOf(grid, bottom + pad);
+  let buckets = 0;
+  for (let row = r0; row <= r1; row++) {
+    for (let col = c0; col <= c1; col++) {
+      const cell = grid.cells[row * grid.cols + col];
+      if (cell.length === 0) continue;
+      for (const index of cell) found.push(index);
+      buckets++;
+    }
+  }
+  // Each bucket is already in order; only merged ones need sorting
+  if (buckets > 1) found.sort((a, b) => a - b);
+  return found;
+};
+
+// Indices of everything that may lie within a radius of a point, ascending
+export const queryRadius = (grid: SpatialGrid, x: number, y: number, radius: number) =>
+  queryRect(grid, x - radius, y - radius, x + radius, y + radius);
+
+// --- Per-world index ---
+// Kept beside the world rather than in it, so it never ends up in saves,
+// replays or snapshots; a world that has never been indexed is filed on first use.
+const indexes = new WeakMap<WorldState, SpatialIndex>();
+
+export const spatialIndex = (s: WorldState): SpatialIndex => {
+  let index = indexes.get(s);
+  if (!index) {
+    const size = s.voyage.worldSize;
+    index = { islands: createGrid(size), enemies: createGrid(size), projectiles: createGrid(size) };
+    indexes.set(s, index);
+    indexEnemies(s, index);
+    indexProjectiles(s, index);
+  }
+  // Islands only change while the world is being charted
+  if (index.islands.count !== s.islands.length) fillGrid(index.islands, s.islands);
+  return index;
+};
+
+// Sunk ships are left out; refile after ships move
+export const indexEnemies = (s: WorldState, index = spatialIndex(s)) => fillGrid(index.enemies, s.enemies, e => e.active);
+
+// Refile after projectiles move or are removed, since indices shift with splices
+export const indexProjectiles = (s: WorldState, index = spatialIndex(s)) => fillGrid(index.projectiles, s.projectiles);
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Offscreen bitmaps for art that looks the same frame after frame (hulls,
+// islands), so a frame composites a few drawImage calls instead of rebuilding
+// paths and gradients for every ship. The renderer decides what goes in a
+// sprite and what stays live on top of it (see renderer.ts).
+
+// Art-space rectangle a sprite covers, relative to the origin it is drawn around
+export interface SpriteBounds { x: number; y: number; width: number; height: number; }
+
+export interface Sprite extends SpriteBounds {
+  canvas: HTMLCanvasElement;
+}
+
+// Paints art into a fresh offscreen canvas. `resolution` is canvas pixels per
+// art unit, so sprites stay crisp when drawn scaled up.
+export const renderSprite = (bounds: SpriteBounds, resolution: number, paint: (ctx: CanvasRenderingContext2D) => void): Sprite => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(bounds.width * resolution);
+  canvas.height = Math.ceil(bounds.height * resolution);
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.scale(resolution, resolution);
+    ctx.translate(-bounds.x, -bounds.y);
+    paint(ctx);
+  }
+  return { ...bounds, canvas };
+};
+
+// Draws a sprite around the current origin, under whatever transform is set
+export const drawSprite = (ctx: CanvasRenderingContext2D, sprite: Sprite) =>
+  ctx.drawImage(sprite.canvas, sprite.x, sprite.y, sprite.width, sprite.height);
+
+// Sprites by key. Once it holds `limit` sprites it starts over, which is
+// cheaper than tracking use and rare in practice.
+export interface SpriteCache {
+  sprites: Map<string, Sprite>;
+  limit: number;
+}
+
+export const createSpriteCache = (limit: number): SpriteCache => ({ sprites: new Map(), limit });
+
+export const cachedSprite = (cache: SpriteCache, key: string, make: () => Sprite): Sprite => {
+  let sprite = cache.sprites.get(key);
+  if (!sprite) {
+    if (cache.sprites.size >= cache.limit) cache.sprites.clear();
+    sprite = make();
+    cache.sprites.set(key, sprite);
+  }
+  return sprite;
+};
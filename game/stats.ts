@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RunStats } from './types';
+import { SIM_HZ } from './constants';
+
+// Per-run tallies. The simulation counts as things happen; this module only
+// creates the record and derives the figures shown on the game-over screen.
+
+export const createStats = (): RunStats => ({
+  shotsFired: 0,
+  shotsHit: 0,
+  sunk: { pirate: 0, elite: 0 },
+  delivered: 0,
+  distance: 0,
+  ticks: 0,
+  damageTaken: 0
+});
+
+// Totals over several runs, e.g. a whole campaign
+export const addStats = (a: RunStats, b: RunStats): RunStats => ({
+  shotsFired: a.shotsFired + b.shotsFired,
+  shotsHit: a.shotsHit + b.shotsHit,
+  sunk: { pirate: a.sunk.pirate + b.sunk.pirate, elite: a.sunk.elite + b.sunk.elite },
+  delivered: a.delivered + b.delivered,
+  distance: a.distance + b.distance,
+  ticks: a.ticks + b.ticks,
+  damageTaken: a.damageTaken + b.damageTaken
+});
+
+const isCount = (value: unknown) => Number.isFinite(value) && (value as number) >= 0;
+
+// Checks stats read back from storage, so totals never sum to NaN
+export const isStats = (raw: any): raw is RunStats =>
+  !!raw && typeof raw === 'object'
+  && isCount(raw.shotsFired) && isCount(raw.shotsHit)
+  && !!raw.sunk && typeof raw.sunk === 'object' && isCount(raw.sunk.pirate) && isCount(raw.sunk.elite)
+  && isCount(raw.delivered) && isCount(raw.distance) && isCount(raw.ticks) && isCount(raw.damageTaken);
+
+export const accuracy = (stats: RunStats) => stats.shotsFired > 0 ? stats.shotsHit / stats.shotsFired : 0;
+
+export const totalSunk = (stats: RunStats) => stats.sunk.pirate + stats.sunk.elite;
+
+export const secondsAfloat = (stats: RunStats) => Math.floor(stats.ticks / SIM_HZ);
+
+// World units to nautical miles, purely for flavor
+export const nauticalMiles = (stats: RunStats) => stats.distance / 1000;
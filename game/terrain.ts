@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, Ship, Island } from './types';
+import {
+  HULL_BEAM, SHALLOWS_WIDTH, SHALLOWS_DRAG, GROUNDING_SPEED, GROUNDING_DAMAGE, SHORE_BOUNCE, AI_SHORE_LOOKAHEAD, SPATIAL_SLACK
+} from './constants';
+import { normalizeAngle } from './wind';
+import { spatialIndex, queryRadius, queryRect } from './spatial';
+import { coastRadius, shoreDistance, shoreNormal } from './islands';
+
+// Islands as solid ground. Each one is land inside its charted coast (see
+// islands.ts) wrapped in a band of shallows; ships bump off the beach,
+// cannonballs stop on the sand and the AI steers around them. Only islands
+// near the point in question are tested (see spatial.ts).
+
+const hullRadius = (ship: Ship) => ship.radius * HULL_BEAM;
+
+const LINE_STEP = 8; // World units between the points tested along a line of fire
+
+// The island (if any) whose land covers a point, optionally padded by a margin
+export const landAt = (s: WorldState, x: number, y: number, margin = 0): Island | undefined => {
+  for (const i of queryRadius(spatialIndex(s).islands, x, y, margin)) {
+    const island = s.islands[i];
+    if (shoreDistance(island, x, y) < margin) return island;
+  }
+  return undefined;
+};
+
+export const inShallows = (s: WorldState, ship: Ship) => !!landAt(s, ship.x, ship.y, SHALLOWS_WIDTH + hullRadius(ship));
+
+// Whether a straight line (a cannon's line of fire) crosses any land
+export const lineBlocked = (s: WorldState, ax: number, ay: number, bx: number, by: number) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy || 1;
+  const nearby = queryRect(spatialIndex(s).islands, Math.min(ax, bx), Math.min(ay, by), Math.max(ax, bx), Math.max(ay, by));
+  const length = Math.sqrt(lengthSq);
+  return nearby.some(i => {
+    const island = s.islands[i];
+    // Closest approach to the centre; a line clear of the bounding circle misses the coast
+    const t = ((island.x - ax) * dx + (island.y - ay) * dy) / lengthSq;
+    const miss = Math.hypot(ax + dx * t - island.x, ay + dy * t - island.y);
+    if (miss >= island.radius) return false;
+
+    // Walk the stretch of the line inside the bounding circle
+    const half = Math.sqrt(island.radius * island.radius - miss * miss) / length;
+    const from = Math.max(0, t - half);
+    const to = Math.min(1, t + half);
+    if (from > to) return false;
+    const steps = Math.ceil((to - from) * length / LINE_STEP);
+    for (let k = 0; k <= steps; k++) {
+      const u = from + (to - from) * (k / (steps || 1));
+      if (shoreDistance(island, ax + dx * u, ay + dy * u) < 0) return true;
+    }
+    return false;
+  });
+};
+
+// Pushes a ship back out of any island it has sailed into and returns the
+// hull damage from the impact (0 for a gentle scrape). Shoal water drags.
+export const resolveShore = (s: WorldState, ship: Ship, dt: number) => {
+  let damage = 0;
+  if (inShallows(s, ship)) {
+    const drag = Math.pow(SHALLOWS_DRAG, dt);
+    ship.velocity.x *= drag;
+    ship.velocity.y *= drag;
+  }
+
+  // Being pushed off one beach can land the hull on a neighbouring one
+  for (const i of queryRadius(spatialIndex(s).islands, ship.x, ship.y, hullRadius(ship) + SPATIAL_SLACK)) {
+    const island = s.islands[i];
+    const dx = ship.x - island.x;
+    const dy = ship.y - island.y;
+    const dist = Math.hypot(dx, dy) || 1;
+    const bearing = Math.atan2(dy, dx);
+    const minDist = coastRadius(island, bearing) + hullRadius(ship);
+    if (dist >= minDist) continue;
+
+    // Back out along the line from the centre, then bounce off the slope of
+    // the beach where it was hit
+    ship.x = island.x + (dx / dist) * minDist;
+    ship.y = island.y + (dy / dist) * minDist;
+    const { x: nx, y: ny } = shoreNormal(island, bearing);
+
+    const impact = -(ship.velocity.x * nx + ship.velocity.y * ny);
+    if (impact > 0) {
+      ship.velocity.x += nx * impact * (1 + SHORE_BOUNCE);
+      ship.velocity.y += ny * impact * (1 + SHORE_BOUNCE);
+      if (impact > GROUNDING_SPEED) damage += (impact - GROUNDING_SPEED) * GROUNDING_DAMAGE;
+    }
+  }
+  return damage;
+};
+
+// Bends a desired heading so the ship passes clear of the first island in its
+// way, rounding it on whichever side it is already favouring. Islands are
+// given the berth of their bounding circle, which clears every headland.
+export const avoidShore = (s: WorldState, ship: Ship, heading: number) => {
+  const dirX = Math.cos(heading);
+  const dirY = Math.sin(heading);
+  let blocker: Island | undefined;
+  let nearest = Infinity;
+
+  // Anything that could lie across the lookahead
+  const islands = spatialIndex(s).islands;
+  const reach = SHALLOWS_WIDTH + hullRadius(ship);
+  for (const i of queryRadius(islands, ship.x, ship.y, AI_SHORE_LOOKAHEAD + 2 * reach + islands.maxRadius)) {
+    const island = s.islands[i];
+    const dx = island.x - ship.x;
+    const dy = island.y - ship.y;
+    const along = dx * dirX + dy * dirY;
+    const clearance = island.radius + SHALLOWS_WIDTH + hullRadius(ship);
+    if (along < 0 || along > AI_SHORE_LOOKAHEAD + clearance) continue;
+    const across = Math.abs(dx * dirY - dy * dirX);
+    if (across < clearance && along < nearest) {
+      nearest = along;
+      blocker = island;
+    }
+  }
+  if (!blocker) return heading;
+
+  const dist = Math.hypot(blocker.x - ship.x, blocker.y - ship.y);
+  const clearance = blocker.radius + SHALLOWS_WIDTH + hullRadius(ship);
+  const toIsland = Math.atan2(blocker.y - ship.y, blocker.x - ship.x);
+  const side = normalizeAngle(toIsland - heading) < 0 ? 1 : -1;
+  return toIsland + side * Math.asin(Math.min(1, clearance / dist));
+};
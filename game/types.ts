@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { DifficultyId, WeaponId, PresentKind, GameMode, ModifierId, IslandVariant } from './constants';
+
+// --- Entities ---
+export interface Vector { x: number; y: number; }
+export interface Entity { id: number; x: number; y: number; radius: number; rotation: number; active: boolean; }
+export interface Ship extends Entity { 
+  velocity: Vector; 
+  angularVelocity: number; // Physics for turning
+  speed: number; 
+  health: number; 
+  maxHealth: number; 
+  cooldown: number; 
+  type: 'player' | 'pirate' | 'elite';
+  wobbleOffset: number;
+  sailTrim: number; // 0 = sheets hauled in, 1 = eased right out
+  sailDamage: number; // Fraction of thrust lost to chain shot, patched over time
+  slowTimer: number; // Frames left sluggish after a coal shot hit
+  ai?: AiBrain; // Enemies only
+}
+
+// --- Waves ---
+export interface DirectorState {
+  difficulty: DifficultyId;
+  wave: number; // Current (or last finished) wave, 0 before the first
+  phase: 'rest' | 'active';
+  timer: number; // Frames left in a rest period
+  toSpawn: number; // Ships still to come this wave
+  spawnTimer: number; // Frames until the next ship may appear
+}
+
+// --- Enemy AI ---
+export type AiState = 'patrol' | 'pursue' | 'circle' | 'flank' | 'flee' | 'regroup';
+export interface AiBrain {
+  state: AiState;
+  timer: number; // Frames since (negative) / until (positive) the next tactical decision
+  target: Vector; // Patrol waypoint or regroup point
+  side: 1 | -1; // Which quarter to flank towards
+}
+export interface Particle extends Entity { velocity: Vector; life: number; maxLife: number; color: string; size: number; type: 'smoke' | 'fire' | 'water' | 'spark' | 'glint' | 'muzzle'; }
+// Cosmetic effects (see particles.ts). They keep their own ids and random
+// stream, so a busier or thinner effect never changes how a voyage plays out.
+export interface ParticleSystem {
+  live: Particle[];
+  nextId: number;
+  rngState: number;
+}
+export interface Projectile extends Entity {
+  velocity: Vector;
+  owner: 'player' | 'enemy';
+  weapon: WeaponId;
+  damage: number;
+  life: number; // Frames until it drops into the sea
+}
+// radius bounds the coast, which is charted as the shore's distance from the
+// centre at COAST_POINTS evenly spaced bearings, starting along +x (see islands.ts)
+export interface Island extends Entity {
+  name: string;
+  delivered: boolean;
+  color: string;
+  variant: IslandVariant;
+  coast: number[];
+  dock: number | null; // Bearing of the pier where a village takes deliveries
+  wish: PresentKind[];
+  wishKnown: boolean;
+  rumored: boolean;
+}
+
+// --- Weapons ---
+export interface Arsenal {
+  selected: WeaponId;
+  ammo: Record<WeaponId, number>; // Volleys left; ignored for bottomless types
+  cycleHeld: boolean; // Cycle key was down last step (one switch per press)
+}
+
+// --- Cargo ---
+export interface Cargo {
+  hold: PresentKind[]; // In loading order
+  capacity: number;
+  loadTimer: number; // Frames until the next present is loaded at the harbor
+}
+export interface Harbor extends Entity { name: string; }
+
+// --- Run Statistics ---
+export interface RunStats {
+  shotsFired: number; // Player cannonballs, counting every pellet
+  shotsHit: number;
+  sunk: { pirate: number; elite: number };
+  delivered: number; // Islands delivered to
+  distance: number; // World units sailed
+  ticks: number; // Frames afloat, not counting paused ones
+  damageTaken: number;
+}
+
+// --- Story Effects ---
+// Things the narrator may do to the world, already validated and bounded (see effects.ts)
+export type StoryEffect =
+  | { kind: 'gold'; amount: number }
+  | { kind: 'repair'; amount: number }
+  | { kind: 'cargo'; present: PresentKind; count: number }
+  | { kind: 'rumor'; island: string }
+  | { kind: 'ambush'; ships: number };
+
+// --- Voyage ---
+// The rules a world was charted with; fixed for its whole life
+export interface Voyage {
+  mode: GameMode;
+  leg: number; // Voyage number within a campaign (1 for open voyages)
+  worldSize: number;
+  islandCount: number;
+  eliteBias: number; // Added to the difficulty's elite odds
+  modifiers: ModifierId[];
+}
+
+// --- World ---
+export interface Keys { w: boolean; a: boolean; s: boolean; d: boolean; q: boolean; e: boolean; r: boolean; space: boolean; }
+export interface Camera { x: number; y: number; shake: number; }
+export interface Wind {
+  angle: number; // Direction the wind blows towards (physics convention, 0 = +X)
+  strength: number;
+  targetAngle: number;
+  targetStrength: number;
+  shiftTimer: number; // Frames until the wind picks a new target
+}
+
+export interface WorldState {
+  player: Ship;
+  projectiles: Projectile[];
+  particles: ParticleSystem;
+  enemies: Ship[];
+  islands: Island[];
+  arsenal: Arsenal;
+  cargo: Cargo;
+  harbor: Harbor;
+  stats: RunStats;
+  voyage: Voyage;
+  camera: Camera;
+  wind: Wind;
+  score: number;
+  time: number;
+  frameCount: number;
+  nextId: number;
+  director: DirectorState;
+  seed: string; // Voyage code the world was generated from
+  rngState: number; // Seeded PRNG state (see rng.ts)
+  events: SimEvent[]; // Raised during the current step
+}
+
+// --- Step I/O ---
+export interface StepInput {
+  keys: Keys;
+  frozen: boolean; // Ships and projectiles hold still (e.g. while the Captain's Log is open)
+  effects?: StoryEffect[]; // Narrator effects to apply this tick
+}
+
+export type SimEvent =
+  | { type: 'delivered'; island: Island; given: PresentKind[]; matched: number; score: number }
+  | { type: 'voyageComplete' }
+  | { type: 'enemySunk'; enemy: Ship }
+  | { type: 'playerHit'; damage: number }
+  | { type: 'grounded'; x: number; y: number; damage: number }
+  | { type: 'cargoLost'; x: number; y: number }
+  | { type: 'restocked'; presents: number }
+  | { type: 'wishRevealed'; island: Island }
+  | { type: 'storyEffect'; effect: StoryEffect }
+  | { type: 'playerSunk' }
+  | { type: 'cannonFired'; x: number; y: number; owner: 'player' | 'enemy' }
+  | { type: 'explosion'; x: number; y: number; kind: 'orange' | 'red'; size: number }
+  | { type: 'waveStarted'; wave: number }
+  | { type: 'waveCleared'; wave: number };
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, Voyage } from './types';
+import {
+  WORLD_SIZE, ISLAND_COUNT, GAME_MODES, VOYAGE_MODIFIERS, ModifierId, MODIFIER_ORDER, CAMPAIGN_ISLAND_STEP,
+  CAMPAIGN_MAX_ISLANDS, CAMPAIGN_SIZE_STEP, CAMPAIGN_MAX_SIZE, CAMPAIGN_ELITE_STEP
+} from './constants';
+import { hashSeed, nextRandom } from './rng';
+
+// What sort of sea a world is: its size, how many islands wait for presents and
+// which modifiers bend the rules. Open voyages are always the classic sea;
+// campaign voyages grow with every leg.
+
+export const openVoyage = (): Voyage => ({
+  mode: 'voyage',
+  leg: 1,
+  worldSize: WORLD_SIZE,
+  islandCount: ISLAND_COUNT,
+  eliteBias: 0,
+  modifiers: []
+});
+
+// Modifiers are picked from the leg's own voyage code, so a campaign voyage
+// is as reproducible as its archipelago
+export const campaignVoyage = (leg: number, seed: string): Voyage => {
+  const order = [...MODIFIER_ORDER];
+  const rng = { rngState: hashSeed(`${seed}:modifiers`) };
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(nextRandom(rng) * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const step = leg - 1;
+  return {
+    mode: 'campaign',
+    leg,
+    worldSize: Math.min(CAMPAIGN_MAX_SIZE, WORLD_SIZE + step * CAMPAIGN_SIZE_STEP),
+    islandCount: Math.min(CAMPAIGN_MAX_ISLANDS, ISLAND_COUNT + step * CAMPAIGN_ISLAND_STEP),
+    eliteBias: step * CAMPAIGN_ELITE_STEP,
+    modifiers: order.slice(0, Math.min(step, order.length))
+  };
+};
+
+export const hasModifier = (s: WorldState, id: ModifierId) => s.voyage.modifiers.includes(id);
+
+export const isVoyageComplete = (s: WorldState) => s.islands.length > 0 && s.islands.every(i => i.delivered);
+
+// Checks a voyage read back from a replay or save; throws on anything out of bounds
+export const validateVoyage = (raw: any): Voyage => {
+  if (!raw || typeof raw !== 'object') throw new Error("Voyage is missing.");
+  if (!Object.prototype.hasOwnProperty.call(GAME_MODES, raw.mode)) throw new Error(`Unknown game mode: ${raw.mode}`);
+  if (!Number.isInteger(raw.leg) || raw.leg < 1) throw new Error(`Bad voyage number: ${raw.leg}`);
+  if (!Number.isFinite(raw.worldSize) || raw.worldSize < WORLD_SIZE || raw.worldSize > CAMPAIGN_MAX_SIZE) throw new Error(`Bad sea size: ${raw.worldSize}`);
+  if (!Number.isInteger(raw.islandCount) || raw.islandCount < 1 || raw.islandCount > CAMPAIGN_MAX_ISLANDS) throw new Error(`Bad island count: ${raw.islandCount}`);
+  if (!Number.isFinite(raw.eliteBias) || raw.eliteBias < 0 || raw.eliteBias > 1) throw new Error(`Bad elite odds: ${raw.eliteBias}`);
+  if (!Array.isArray(raw.modifiers) || !raw.modifiers.every((m: unknown) => Object.prototype.hasOwnProperty.call(VOYAGE_MODIFIERS, m as string))) {
+    throw new Error("Unknown voyage modifier.");
+  }
+  return { mode: raw.mode, leg: raw.leg, worldSize: raw.worldSize, islandCount: raw.islandCount, eliteBias: raw.eliteBias, modifiers: raw.modifiers };
+};
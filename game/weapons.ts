@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Arsenal, Ship, Projectile } from './types';
+import {
+  WEAPONS, WEAPON_ORDER, WeaponId, ENEMY_CLASSES, SAIL_DAMAGE_PER_HIT, MAX_SAIL_DAMAGE, SAIL_REPAIR_RATE,
+  COAL_SLOW_FRAMES, COAL_SLOW_FACTOR, SALVAGE_ROUNDS
+} from './constants';
+
+// Weapon rules. What each shot type does lives in the WEAPONS table; this
+// module tracks the player's ammo and applies hits and their lingering effects.
+
+export const createArsenal = (): Arsenal => {
+  const ammo = {} as Record<WeaponId, number>;
+  for (const id of WEAPON_ORDER) ammo[id] = WEAPONS[id].ammo ?? 0;
+  return { selected: 'round', ammo, cycleHeld: false };
+};
+
+export const hasAmmo = (arsenal: Arsenal, id: WeaponId) => WEAPONS[id].ammo === null || arsenal.ammo[id] > 0;
+
+// Next loaded weapon in the rack (round shot never runs dry, so this always finds one)
+export const cycleWeapon = (arsenal: Arsenal) => {
+  const start = WEAPON_ORDER.indexOf(arsenal.selected);
+  for (let i = 1; i <= WEAPON_ORDER.length; i++) {
+    const next = WEAPON_ORDER[(start + i) % WEAPON_ORDER.length];
+    if (hasAmmo(arsenal, next)) {
+      arsenal.selected = next;
+      return;
+    }
+  }
+};
+
+// Spends one volley of the selected ammo and returns what to load. An empty
+// rack falls back to round shot.
+export const loadVolley = (arsenal: Arsenal): WeaponId => {
+  const id = arsenal.selected;
+  if (!hasAmmo(arsenal, id)) {
+    arsenal.selected = 'round';
+    return 'round';
+  }
+  if (WEAPONS[id].ammo !== null) arsenal.ammo[id]--;
+  if (!hasAmmo(arsenal, id)) arsenal.selected = 'round';
+  return id;
+};
+
+// Sinking a ship recovers a few special rounds, never more than a full load
+export const salvage = (arsenal: Arsenal, enemy: Ship) => {
+  const rounds = enemy.type === 'elite' ? SALVAGE_ROUNDS.elite : SALVAGE_ROUNDS.pirate;
+  for (const id of WEAPON_ORDER) {
+    const max = WEAPONS[id].ammo;
+    if (max !== null) arsenal.ammo[id] = Math.min(max, arsenal.ammo[id] + rounds);
+  }
+};
+
+export const projectileDamage = (weapon: WeaponId, shooter: Ship) => {
+  const base = WEAPONS[weapon].damage;
+  if (shooter.type === 'player') return base;
+  return Math.round(base * ENEMY_CLASSES[shooter.type].damageScale);
+};
+
+// Applies damage and the shot's special effect to whichever ship it struck
+export const applyHit = (ship: Ship, proj: Projectile) => {
+  ship.health -= proj.damage;
+  const effect = WEAPONS[proj.weapon].effect;
+  if (effect === 'sails') ship.sailDamage = Math.min(MAX_SAIL_DAMAGE, ship.sailDamage + SAIL_DAMAGE_PER_HIT);
+  if (effect === 'slow') ship.slowTimer = COAL_SLOW_FRAMES;
+};
+
+// Torn sails are slowly patched; coal soot wears off
+export const updateShipDamage = (ship: Ship, dt: number) => {
+  if (ship.sailDamage > 0) ship.sailDamage = Math.max(0, ship.sailDamage - SAIL_REPAIR_RATE * dt);
+  if (ship.slowTimer > 0) ship.slowTimer = Math.max(0, ship.slowTimer - dt);
+};
+
+// Thrust multiplier left over after sail damage and coal slowdown
+export const damageThrust = (ship: Ship) =>
+  (1 - ship.sailDamage) * (ship.slowTimer > 0 ? COAL_SLOW_FACTOR : 1);
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { WorldState, Wind, Ship } from './types';
+import {
+  NO_GO_ANGLE, CLOSE_HAULED_ANGLE, WIND_MIN_STRENGTH, WIND_MAX_STRENGTH, WIND_TURN_RATE, WIND_SHIFT_MIN, WIND_SHIFT_MAX,
+  GALE_STRENGTH, GALE_SHIFT
+} from './constants';
+import { hasModifier } from './voyage';
+import { randomRange } from './rng';
+
+// A single global wind that veers slowly over time. Ships only get thrust
+// from it, scaled by their point of sail and how well their sails are trimmed.
+
+// Wraps an angle into [-PI, PI]
+export const normalizeAngle = (a: number) => {
+  while (a < -Math.PI) a += Math.PI * 2;
+  while (a > Math.PI) a -= Math.PI * 2;
+  return a;
+};
+
+export const createWind = (s: WorldState): Wind => {
+  const angle = randomRange(s, 0, Math.PI * 2);
+  const strength = randomRange(s, WIND_MIN_STRENGTH, WIND_MAX_STRENGTH);
+  return { angle, strength, targetAngle: angle, targetStrength: strength, shiftTimer: randomRange(s, WIND_SHIFT_MIN, WIND_SHIFT_MAX) };
+};
+
+export const updateWind = (s: WorldState, dt: number) => {
+  const w = s.wind;
+  w.shiftTimer -= dt;
+  if (w.shiftTimer <= 0) {
+    const gales = hasModifier(s, 'gales');
+    w.targetAngle = w.angle + randomRange(s, -Math.PI / 3, Math.PI / 3);
+    w.targetStrength = randomRange(s, WIND_MIN_STRENGTH, WIND_MAX_STRENGTH) * (gales ? GALE_STRENGTH : 1);
+    w.shiftTimer = randomRange(s, WIND_SHIFT_MIN, WIND_SHIFT_MAX) * (gales ? GALE_SHIFT : 1);
+  }
+
+  const diff = normalizeAngle(w.targetAngle - w.angle);
+  const turn = Math.min(Math.abs(diff), WIND_TURN_RATE * dt);
+  w.angle = normalizeAngle(w.angle + Math.sign(diff) * turn);
+  w.strength += (w.targetStrength - w.strength) * Math.min(1, 0.002 * dt);
+};
+
+// Angle between the bow and the direction the wind comes from: 0 = head to wind, PI = dead downwind
+export const offWindAngle = (heading: number, wind: Wind) => Math.abs(normalizeAngle(heading - (wind.angle + Math.PI)));
+
+// Raw power available on this heading with perfect trim (0..1)
+export const pointOfSailEfficiency = (heading: number, wind: Wind) => {
+  const off = offWindAngle(heading, wind);
+  if (off < NO_GO_ANGLE) return 0; // In irons
+  const base = 0.5 + 0.5 * Math.sin(off); // Beam reach is fastest, running is slower
+  if (off < CLOSE_HAULED_ANGLE) return base * (off - NO_GO_ANGLE) / (CLOSE_HAULED_ANGLE - NO_GO_ANGLE);
+  return base;
+};
+
+// Sheets hauled in (0) when close-hauled, eased right out (1) when running
+export const optimalTrim = (heading: number, wind: Wind) => {
+  const off = offWindAngle(heading, wind);
+  return Math.max(0, Math.min(1, (off - NO_GO_ANGLE) / (Math.PI - NO_GO_ANGLE)));
+};
+
+// Multiplier applied to SHIP_THRUST for a ship under sail
+export const sailThrust = (ship: Ship, wind: Wind) => {
+  const trimError = Math.abs(ship.sailTrim - optimalTrim(ship.rotation, wind));
+  return pointOfSailEfficiency(ship.rotation, wind) * (1 - trimError * 0.7) * wind.strength;
+};
+
+// Closest heading to `desired` that is actually sailable; used by the AI to tack upwind
+export const sailableHeading = (desired: number, wind: Wind, margin = 0.15) => {
+  const upwind = wind.angle + Math.PI;
+  const off = normalizeAngle(desired - upwind);
+  const limit = CLOSE_HAULED_ANGLE + margin;
+  if (Math.abs(off) >= limit) return desired;
+  return upwind + (off >= 0 ? limit : -limit);
+};
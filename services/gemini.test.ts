@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, it, expect } from 'vitest';
+import { NarrationRequest } from './narrator';
+import { storyPrompt } from './gemini';
+
+const REQUEST: NarrationRequest = { event: 'Delivered Present', context: 'Isle 1 got its toys', mood: 'cheerful', island: 'Isle 1', rumorTargets: ['Isle 2', 'Isle 3'] };
+
+describe('story prompt', () => {
+  it('offers rumors about the islands Santa has yet to hear from', () => {
+    expect(storyPrompt(REQUEST)).toContain('- rumor: "island" whose wishlist Santa overhears, one of: Isle 2, Isle 3');
+  });
+
+  it('leaves rumors out once there is nobody left to overhear', () => {
+    const prompt = storyPrompt({ ...REQUEST, rumorTargets: [] });
+    expect(prompt).not.toContain('rumor');
+    expect(prompt).toContain('- gold:');
+    expect(prompt).toContain('- ambush:');
+  });
+});
@@ -2,28 +2,103 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Type } from "@google/genai";
+import { parseStoryResponse } from "../game/effects";
+import { StoryEffect } from "../game/types";
+import { Narrator, NarrationRequest } from "./narrator";
+import {
+  PRESENT_ORDER, STORY_MAX_EFFECTS, STORY_MAX_GOLD, STORY_MAX_REPAIR, STORY_MAX_CARGO, STORY_MAX_AMBUSH
+} from "../game/constants";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Rumors need an island to point at; with none left to overhear, the model
+// isn't offered them (any it made up would sink the whole response)
+const EFFECT_KINDS: StoryEffect['kind'][] = ['gold', 'repair', 'cargo', 'rumor', 'ambush'];
+const effectKinds = ({ rumorTargets }: NarrationRequest) =>
+  EFFECT_KINDS.filter(kind => kind !== 'rumor' || rumorTargets.length > 0);
 
-export async function generatePirateEvent(eventName: string, context: string): Promise<string> {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `You are the narrator of a pirate game where Santa is the captain. 
-      The player just performed this action: ${eventName}. 
+// One flat effect shape; which fields matter depends on `kind` and is checked in game/effects.ts
+const storySchema = (kinds: StoryEffect['kind'][]) => ({
+  type: Type.OBJECT,
+  properties: {
+    narration: { type: Type.STRING },
+    effects: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: kinds },
+          amount: { type: Type.INTEGER },
+          present: { type: Type.STRING, enum: PRESENT_ORDER },
+          count: { type: Type.INTEGER },
+          island: { type: Type.STRING },
+          ships: { type: Type.INTEGER }
+        },
+        required: ['kind']
+      }
+    }
+  },
+  required: ['narration', 'effects']
+});
+
+export const storyPrompt = (request: NarrationRequest) => {
+  const { event, context, rumorTargets } = request;
+  const effects: Record<StoryEffect['kind'], string> = {
+    gold: `"amount" of bounty, 1 to ${STORY_MAX_GOLD}`,
+    repair: `"amount" of hull patched, 1 to ${STORY_MAX_REPAIR}`,
+    cargo: `"count" (1 to ${STORY_MAX_CARGO}) presents of kind "present" (${PRESENT_ORDER.join(', ')})`,
+    rumor: `"island" whose wishlist Santa overhears, one of: ${rumorTargets.join(', ')}`,
+    ambush: `"ships" pirates (1 to ${STORY_MAX_AMBUSH}) lying in wait`
+  };
+  return `You are the narrator of a pirate game where Santa is the captain.
+      The player just performed this action: ${event}.
       Context: ${context}.
       Generate a funny, pirate-themed, one-sentence reaction or loot description.
-      Example: "Arrr! The elves of Palm Island traded yer socks for a golden coconut!"`,
-      config: {
-        temperature: 1,
-        maxOutputTokens: 50,
-      },
-    });
+      Example: "Arrr! The elves of Palm Island traded yer socks for a golden coconut!"
+      If the sentence gives Santa something or sets something in motion, back it with at most ${STORY_MAX_EFFECTS} effects:
+${effectKinds(request).map(kind => `      - ${kind}: ${effects[kind]}`).join('\n')}
+      Effects are optional; most lines need none.`;
+};
 
-    return response.text || "Arrr! The winds carry no words today.";
-  } catch (error) {
-    console.error("Gemini Generation Error:", error);
-    return "The sea is silent... (API Error)";
+// Pulls the narration out of a JSON response that is still arriving, so it can
+// be shown before the effects (or even the closing quote) have streamed in
+const partialNarration = (json: string) => {
+  const match = /"narration"\s*:\s*"((?:[^"\\]|\\.)*)/.exec(json);
+  if (!match) return '';
+  const body = match[1].replace(/\\(u[0-9a-fA-F]{0,3})?$/, ''); // Drop a dangling escape
+  try {
+    return JSON.parse(`"${body}"`) as string;
+  } catch {
+    return '';
   }
-}
\ No newline at end of file
+};
+
+// Gemini backend. The client is only built when this narrator is chosen, and
+// any failure (network, empty or rejected response) is thrown so the caller
+// can retry or fall back; never trust a half-valid response.
+export const createGeminiNarrator = (apiKey: string): Narrator => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    id: 'gemini',
+    narrate: async (request, options = {}) => {
+      const stream = await ai.models.generateContentStream({
+        model: 'gemini-2.5-flash',
+        contents: storyPrompt(request),
+        config: {
+          temperature: 1,
+          maxOutputTokens: 300,
+          responseMimeType: 'application/json',
+          responseSchema: storySchema(effectKinds(request)),
+          abortSignal: options.signal,
+        },
+      });
+      let text = '';
+      for await (const chunk of stream) {
+        text += chunk.text ?? '';
+        const narration = partialNarration(text);
+        if (narration) options.onText?.(narration);
+      }
+      if (!text) throw new Error("Gemini returned no narration.");
+      return parseStoryResponse(text, request.rumorTargets);
+    }
+  };
+};
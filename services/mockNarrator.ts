@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { StoryResponse } from "../game/effects";
+import { Narrator, NarrationRequest, abortError } from "./narrator";
+
+// Deterministic narrator for tests and tooling. Plays back scripted responses
+// in order (cycling), or echoes the request when none are given. Every call
+// is kept in `requests` for inspection.
+
+export interface MockNarrator extends Narrator {
+  requests: NarrationRequest[];
+}
+
+export const createMockNarrator = (script: StoryResponse[] = []): MockNarrator => {
+  const requests: NarrationRequest[] = [];
+  return {
+    id: 'mock',
+    requests,
+    narrate: async (request, options = {}) => {
+      requests.push(request);
+      if (options.signal?.aborted) throw abortError();
+      const response = script.length > 0
+        ? script[(requests.length - 1) % script.length]
+        : { narration: `${request.event}: ${request.context}`, effects: [] };
+      options.onText?.(response.narration);
+      return { narration: response.narration, effects: [...response.effects] };
+    }
+  };
+};
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NarrationRequest, Narrator, withRetry, withFallback, isAbortError } from './narrator';
+import { createMockNarrator } from './mockNarrator';
+import { createOfflineNarrator } from './offlineNarrator';
+import { validateEffects } from '../game/effects';
+
+const REQUEST: NarrationRequest = { event: 'Delivered Present', context: 'Isle 1 got its toys', mood: 'cheerful', island: 'Isle 1', rumorTargets: [] };
+
+const FAST = { timeoutMs: 50, retries: 2, backoffMs: 1 };
+
+// Fails the first `failures` calls, then answers
+const flaky = (failures: number): Narrator & { calls: number } => {
+  const narrator = {
+    id: 'flaky',
+    calls: 0,
+    narrate: async () => {
+      narrator.calls++;
+      if (narrator.calls <= failures) throw new Error('Backend unavailable');
+      return { narration: 'At last!', effects: [] };
+    }
+  };
+  return narrator;
+};
+
+describe('mock narrator', () => {
+  it('plays its script in order and keeps every request', async () => {
+    const mock = createMockNarrator([
+      { narration: 'One', effects: [{ kind: 'gold', amount: 50 }] },
+      { narration: 'Two', effects: [] }
+    ]);
+    expect((await mock.narrate(REQUEST)).narration).toBe('One');
+    expect((await mock.narrate(REQUEST)).narration).toBe('Two');
+    expect((await mock.narrate(REQUEST)).effects).toEqual([{ kind: 'gold', amount: 50 }]);
+    expect(mock.requests).toHaveLength(3);
+  });
+
+  it('streams the narration it answers with', async () => {
+    const streamed: string[] = [];
+    await createMockNarrator().narrate(REQUEST, { onText: text => streamed.push(text) });
+    expect(streamed).toEqual(['Delivered Present: Isle 1 got its toys']);
+  });
+});
+
+describe('offline narrator', () => {
+  it('only ever backs its tales with effects the game accepts', async () => {
+    let roll = 0;
+    const random = () => (roll = (roll * 9301 + 49297) % 233280) / 233280; // Small fixed LCG
+    const narrator = createOfflineNarrator(random);
+    for (const mood of ['cheerful', 'grumpy'] as const) {
+      for (let i = 0; i < 50; i++) {
+        const story = await narrator.narrate({ ...REQUEST, mood, rumorTargets: ['Isle 2'] });
+        expect(story.narration).not.toBe('');
+        expect(validateEffects(story.effects, ['Isle 2'])).toEqual(story.effects);
+      }
+    }
+  });
+});
+
+describe('combinators', () => {
+  // Failed attempts are logged as they are retried or handed over
+  beforeEach(() => { vi.spyOn(console, 'warn').mockImplementation(() => {}); });
+  afterEach(() => { vi.restoreAllMocks(); vi.useRealTimers(); });
+
+  it('retries a failing backend until it answers', async () => {
+    const backend = flaky(2);
+    expect((await withRetry(backend, FAST).narrate(REQUEST)).narration).toBe('At last!');
+    expect(backend.calls).toBe(3);
+  });
+
+  it('gives up once the retries run out', async () => {
+    await expect(withRetry(flaky(5), FAST).narrate(REQUEST)).rejects.toThrow('Backend unavailable');
+  });
+
+  it('falls back when the primary fails', async () => {
+    const fallback = createMockNarrator([{ narration: 'Offline tale', effects: [] }]);
+    const narrator = withFallback(withRetry(flaky(5), FAST), fallback);
+    expect((await narrator.narrate(REQUEST)).narration).toBe('Offline tale');
+    expect(fallback.requests).toHaveLength(1);
+  });
+
+  it('does not fall back or retry once cancelled', async () => {
+    const control = new AbortController();
+    control.abort();
+    const fallback = createMockNarrator();
+    const narrator = withFallback(withRetry(createMockNarrator(), FAST), fallback);
+    const error = await narrator.narrate(REQUEST, { signal: control.signal }).catch(e => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(fallback.requests).toHaveLength(0);
+  });
+
+  it('times out a hung backend, retries it, then falls back', async () => {
+    vi.useFakeTimers();
+    let calls = 0;
+    const hung: Narrator = { id: 'hung', narrate: () => { calls++; return new Promise(() => {}); } };
+    const fallback = createMockNarrator([{ narration: 'Offline tale', effects: [] }]);
+    const story = withFallback(withRetry(hung, { timeoutMs: 1000, retries: 1, backoffMs: 100 }), fallback).narrate(REQUEST);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(calls).toBe(1);
+    // Times out, backs off, then tries again
+    await vi.advanceTimersByTimeAsync(101);
+    expect(calls).toBe(2);
+    expect(fallback.requests).toHaveLength(0);
+    // The retry hangs too and runs out of time
+    await vi.advanceTimersByTimeAsync(1000);
+    expect((await story).narration).toBe('Offline tale');
+    expect(calls).toBe(2);
+    expect(fallback.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { StoryResponse } from "../game/effects";
+import { createGeminiNarrator } from "./gemini";
+import { createOfflineNarrator } from "./offlineNarrator";
+
+// Narration is pluggable. The game only ever talks to a Narrator; which one
+// answers is a setting. On Auto a remote backend that fails quietly hands over
+// to the offline one so the Captain's Log never shows an error mid-voyage;
+// choosing Gemini outright skips that, so its failures show in the log.
+// Requests stream, can be cancelled, and give up after a deadline.
+
+export interface NarrationRequest {
+  event: string; // What just happened, e.g. "Delivered Present"
+  context: string; // One line describing the situation
+  mood: 'cheerful' | 'grumpy';
+  island?: string;
+  rumorTargets: string[]; // Islands a rumor effect may point at
+}
+
+export interface NarrateOptions {
+  signal?: AbortSignal; // Cancels the request (e.g. the voyage was reset)
+  onText?: (narration: string) => void; // Narration so far, as it streams in
+}
+
+export interface Narrator {
+  id: string;
+  narrate: (request: NarrationRequest, options?: NarrateOptions) => Promise<StoryResponse>;
+}
+
+export interface NarratorTiming {
+  timeoutMs: number; // Per attempt
+  retries: number;
+  backoffMs: number; // Doubles after every failed attempt
+}
+
+export const DEFAULT_TIMING: NarratorTiming = { timeoutMs: 10000, retries: 2, backoffMs: 600 };
+
+export type NarratorSetting = 'auto' | 'gemini' | 'offline';
+
+export const NARRATOR_SETTINGS: Record<NarratorSetting, string> = {
+  auto: 'Auto',
+  gemini: 'Gemini',
+  offline: 'Offline'
+};
+
+export const hasGeminiKey = () => !!process.env.API_KEY;
+
+// --- Cancellation ---
+export const abortError = () => new DOMException("Narration cancelled.", 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Rejects as soon as the signal fires, even if the work itself never notices
+const abortable = <T,>(work: Promise<T>, signal: AbortSignal) => new Promise<T>((resolve, reject) => {
+  if (signal.aborted) return reject(signal.reason ?? abortError());
+  const onAbort = () => reject(signal.reason ?? abortError());
+  signal.addEventListener('abort', onAbort, { once: true });
+  work.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
+
+const sleep = (ms: number, signal?: AbortSignal) => {
+  const wait = new Promise<void>(resolve => setTimeout(resolve, ms));
+  return signal ? abortable(wait, signal) : wait;
+};
+
+// --- Combinators ---
+// Gives each attempt its own deadline and retries failures with exponential
+// backoff. Cancellation by the caller is never retried.
+export const withRetry = (narrator: Narrator, timing: NarratorTiming = DEFAULT_TIMING): Narrator => ({
+  id: narrator.id,
+  narrate: async (request, options = {}) => {
+    for (let attempt = 0; ; attempt++) {
+      const attemptControl = new AbortController();
+      const timer = setTimeout(() => attemptControl.abort(new Error(`Narration timed out after ${timing.timeoutMs}ms.`)), timing.timeoutMs);
+      const cancel = () => attemptControl.abort(abortError());
+      options.signal?.addEventListener('abort', cancel, { once: true });
+      try {
+        if (options.signal?.aborted) throw abortError();
+        return await abortable(narrator.narrate(request, { ...options, signal: attemptControl.signal }), attemptControl.signal);
+      } catch (error) {
+        if (options.signal?.aborted || attempt >= timing.retries) throw error;
+        console.warn(`Narrator "${narrator.id}" attempt ${attempt + 1} failed, retrying:`, error);
+      } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', cancel);
+      }
+      await sleep(timing.backoffMs * 2 ** attempt, options.signal);
+    }
+  }
+});
+
+// Tries the primary backend, falling back on any failure other than cancellation
+export const withFallback = (primary: Narrator, fallback: Narrator): Narrator => ({
+  id: primary.id,
+  narrate: async (request, options = {}) => {
+    try {
+      return await primary.narrate(request, options);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.warn(`Narrator "${primary.id}" failed, using "${fallback.id}":`, error);
+      return fallback.narrate(request, options);
+    }
+  }
+});
+
+export const createNarrator = (setting: NarratorSetting, timing: NarratorTiming = DEFAULT_TIMING): Narrator => {
+  const offline = createOfflineNarrator();
+  if (setting === 'offline' || !hasGeminiKey()) return offline;
+  const gemini = withRetry(createGeminiNarrator(process.env.API_KEY!), timing);
+  return setting === 'gemini' ? gemini : withFallback(gemini, offline);
+};
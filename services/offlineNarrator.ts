@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { StoryEffect } from "../game/types";
+import { PRESENT_ORDER } from "../game/constants";
+import { Narrator, NarrationRequest, abortError } from "./narrator";
+
+// Procedural narrator that needs no network: pirate lines stitched together
+// from templates and the request's context, with the odd small reward.
+
+const OPENERS = ["Arrr!", "Yo ho ho!", "Shiver me timbers!", "Blow me down!", "Avast!", "Heave ho!"];
+
+const CHEERFUL = [
+  "The folk of {island} danced a jig on the beach and sang sea shanties till dawn.",
+  "{island} raised a toast of hot cocoa to the jolliest buccaneer on the seven seas.",
+  "The elves of {island} say it be exactly what they scrawled on their list.",
+  "Even the parrots of {island} squawked a carol in yer honour, Cap'n.",
+  "The children of {island} swear they'll be nice all year... or at least till Tuesday."
+];
+
+const GRUMPY = [
+  "The mayor of {island} glared at the wrong box and muttered about coal.",
+  "{island} wanted one thing and got another; the crew be sleepin' with one eye open tonight.",
+  "A mix-up at {island}! The elves be filin' a complaint with the North Pole.",
+  "The folk of {island} be politely sayin' thank ye through gritted teeth.",
+  "{island} be re-gifting that to the nearest kraken, mark me words."
+];
+
+const REWARDS = [
+  "They pressed a pouch of doubloons into Santa's mitten.",
+  "The ship's carpenter patched the hull with their leftover gingerbread.",
+  "Someone slipped an extra parcel aboard for the next stop.",
+  "A tipsy fisherman whispered what {rumor} be wishin' for."
+];
+
+export const createOfflineNarrator = (random: () => number = Math.random): Narrator => {
+  const pick = <T,>(list: readonly T[]) => list[Math.floor(random() * list.length)];
+  const fill = (template: string, request: NarrationRequest, rumor = '') =>
+    template.replace(/\{island\}/g, request.island ?? 'the island').replace(/\{rumor\}/g, rumor);
+
+  // Cheerful deliveries sometimes come with a modest reward
+  const reward = (request: NarrationRequest): { line: string; effect: StoryEffect } | null => {
+    if (request.mood !== 'cheerful' || random() > 0.4) return null;
+    const roll = Math.floor(random() * REWARDS.length);
+    const rumor = request.rumorTargets.length > 0 ? pick(request.rumorTargets) : '';
+    const effects: (StoryEffect | null)[] = [
+      { kind: 'gold', amount: 50 + Math.floor(random() * 100) },
+      { kind: 'repair', amount: 10 },
+      { kind: 'cargo', present: pick(PRESENT_ORDER), count: 1 },
+      rumor ? { kind: 'rumor', island: rumor } : null
+    ];
+    const effect = effects[roll];
+    return effect ? { line: fill(REWARDS[roll], request, rumor), effect } : null;
+  };
+
+  return {
+    id: 'offline',
+    narrate: async (request, options = {}) => {
+      if (options.signal?.aborted) throw abortError();
+      const body = fill(pick(request.mood === 'grumpy' ? GRUMPY : CHEERFUL), request);
+      const bonus = reward(request);
+      const narration = [pick(OPENERS), body, bonus?.line].filter(Boolean).join(' ');
+      options.onText?.(narration);
+      return { narration, effects: bonus ? [bonus.effect] : [] };
+    }
+  };
+};